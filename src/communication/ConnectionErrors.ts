@@ -0,0 +1,48 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisconnectReason } from "./ConnectionState.ts";
+
+/**
+ * Error raised when reconnecting to the device gave up, because its {@link ReconnectPolicy} was exhausted.
+ *
+ * @property {number} attempts - Number of reconnect attempts done before giving up.
+ * @property {number} elapsedMs - Time in milliseconds spent reconnecting.
+ * @property {DisconnectReason} reason - Why the last connection attempt failed.
+ */
+export class ReconnectGaveUpError extends Error {
+	public readonly attempts: number;
+	public readonly elapsedMs: number;
+	public readonly reason: DisconnectReason;
+
+	constructor(attempts: number, elapsedMs: number, reason: DisconnectReason) {
+		super(`Reconnecting to the device gave up after ${attempts} attempts in ${elapsedMs}ms (${reason})`);
+		this.name = "ReconnectGaveUpError";
+		this.attempts = attempts;
+		this.elapsedMs = elapsedMs;
+		this.reason = reason;
+	}
+}
+
+/**
+ * Error raised when the connection to the device was closed by the script, see {@link NnounceDevice.close}.
+ */
+export class ConnectionClosedError extends Error {
+	constructor() {
+		super("Connection to the device was closed");
+		this.name = "ConnectionClosedError";
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Callback } from "../utils/FunctionalInterfaces.ts";
+import { ReconnectGaveUpError } from "./ConnectionErrors.ts";
+
+/**
+ * Enum representing the state of the connection to the device.
+ *
+ * - CONNECTING: The first connection is being established.
+ * - OPEN: Connection is established.
+ * - RECONNECTING: Connection was lost, it is being established again, see ```reason```.
+ * - CLOSED: Connection is not established again - reconnecting gave up (see ```error```) or the connection was closed by the script.
+ */
+export enum ConnectionState {
+	CONNECTING = "CONNECTING",
+	OPEN = "OPEN",
+	RECONNECTING = "RECONNECTING",
+	CLOSED = "CLOSED",
+}
+
+/**
+ * Enum representing the reason, why the connection was lost.
+ *
+ * - SOCKET_ERROR: WebSocket failed (e.g. device is not reachable).
+ * - MISSING_HEARTBEAT: Heartbeat wasn't received from the device in time, the connection was closed by the SDK.
+ * - SERVER_CLOSE: Connection was closed by the device.
+ */
+export enum DisconnectReason {
+	SOCKET_ERROR = "SOCKET_ERROR",
+	MISSING_HEARTBEAT = "MISSING_HEARTBEAT",
+	SERVER_CLOSE = "SERVER_CLOSE",
+}
+
+/**
+ * Change of the connection state.
+ *
+ * @property {ConnectionState} state - New state.
+ * @property {ConnectionState} previousState - Previous state.
+ * @property {DisconnectReason} [reason] - Why the connection was lost. Present for RECONNECTING state and when reconnecting gave up.
+ * @property {ReconnectGaveUpError} [error] - Error of the exhausted {@link ReconnectPolicy}. Present for CLOSED state only.
+ * @property {Date} timestamp - Time of the change.
+ */
+export interface ConnectionStateEvent {
+	state: ConnectionState;
+	previousState: ConnectionState;
+	reason?: DisconnectReason;
+	error?: ReconnectGaveUpError;
+	timestamp: Date;
+}
+
+/**
+ * Registration of a connection state listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface ConnectionSubscription {
+	removeListener: Callback;
+}
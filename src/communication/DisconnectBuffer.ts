@@ -0,0 +1,151 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Enum representing how an event is handled, when it is sent while the socket is disconnected.
+ *
+ * - BUFFER: Event is added into the disconnect buffer and sent once the socket is connected, see {@link DisconnectBufferOptions}.
+ * - DROP: Event is dropped.
+ * - FAIL: Error is thrown.
+ */
+export enum DisconnectedSendPolicy {
+	BUFFER = "BUFFER",
+	DROP = "DROP",
+	FAIL = "FAIL",
+}
+
+/**
+ * Defines limits of the buffer of events sent while the socket is disconnected.
+ */
+export type DisconnectBufferOptions = {
+	/**
+	 * Maximum number of buffered events. The oldest event is dropped, when the buffer is full.
+	 * Default is -1 -> no limit.
+	 */
+	maxSize?: number;
+	/**
+	 * Time in milliseconds, after which a buffered event is dropped instead of being sent.
+	 * Default is -1 -> buffered events never expire.
+	 */
+	ttlMs?: number;
+};
+
+/**
+ * Defines how a single event is sent.
+ */
+export type SendOptions = {
+	/**
+	 * How the event is handled, when the socket is disconnected. Default is BUFFER.
+	 */
+	whenDisconnected?: DisconnectedSendPolicy;
+	/**
+	 * Buffered events with the same key are coalesced - only the last one is kept, e.g. the last value written to an output pin.
+	 */
+	coalesceKey?: string;
+};
+
+/**
+ * Event waiting in the disconnect buffer.
+ */
+type BufferEntry = {
+	jsonMessage: string;
+	bufferedAt: number;
+	coalesceKey?: string;
+};
+
+/**
+ * Buffer of events sent while the socket is disconnected, optionally limited by size and age of events.
+ */
+export class DisconnectBuffer {
+	private options: DisconnectBufferOptions;
+	private entries: Array<BufferEntry> = [];
+
+	/**
+	 * Creates buffer with given limits.
+	 *
+	 * @param {DisconnectBufferOptions} options - Limits of the buffer.
+	 */
+	constructor(options: DisconnectBufferOptions = {}) {
+		this.options = options;
+	}
+
+	/**
+	 * Returns number of buffered events.
+	 */
+	public size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * Adds event into the buffer. Buffered event with the same coalesce key is replaced.
+	 *
+	 * @param {string} jsonMessage - The event serialized to JSON.
+	 * @param {string} [coalesceKey] - Key of the event, see {@link SendOptions.coalesceKey}.
+	 * @return {Array<string>} Events dropped, because they were replaced or the buffer was full.
+	 */
+	public add(jsonMessage: string, coalesceKey?: string): Array<string> {
+		const dropped: Array<string> = [];
+		if (coalesceKey !== undefined) {
+			this.entries = this.entries.filter(entry => {
+				if (entry.coalesceKey === coalesceKey) {
+					dropped.push(entry.jsonMessage);
+					return false;
+				}
+				return true;
+			});
+		}
+		this.entries.push({ jsonMessage, bufferedAt: Date.now(), coalesceKey });
+		const maxSize = this.options.maxSize ?? -1;
+		if (maxSize >= 0 && this.entries.length > maxSize) {
+			dropped.push(...this.entries.splice(0, this.entries.length - maxSize).map(entry => entry.jsonMessage));
+		}
+		return dropped;
+	}
+
+	/**
+	 * Removes expired events from the buffer.
+	 *
+	 * @return {Array<string>} Expired events, in order of adding.
+	 */
+	public removeExpired(): Array<string> {
+		const ttlMs = this.options.ttlMs ?? -1;
+		if (ttlMs < 0) {
+			return [];
+		}
+		const now = Date.now();
+		const expired = this.entries.filter(entry => now - entry.bufferedAt > ttlMs);
+		this.entries = this.entries.filter(entry => now - entry.bufferedAt <= ttlMs);
+		return expired.map(entry => entry.jsonMessage);
+	}
+
+	/**
+	 * Removes all events from the buffer. Use {@link removeExpired} first to leave out expired events.
+	 *
+	 * @return {Array<string>} Events in order of adding.
+	 */
+	public drain(): Array<string> {
+		const entries = this.entries;
+		this.entries = [];
+		return entries.map(entry => entry.jsonMessage);
+	}
+
+	/**
+	 * Removes all events from the buffer without returning them.
+	 */
+	public clear() {
+		this.entries = [];
+	}
+}
@@ -0,0 +1,84 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { DisconnectBuffer } from "./DisconnectBuffer.ts";
+
+/**
+ * Runs the test with ```Date.now()``` returning the value of given time holder.
+ */
+function withTime(test: { (time: { now: number }): void }) {
+	const time = { now: 0 };
+	const dateNow = Date.now;
+	Date.now = () => time.now;
+	try {
+		test(time);
+	} finally {
+		Date.now = dateNow;
+	}
+}
+
+Deno.test("DisconnectBuffer is unbounded and keeps events forever by default", () => {
+	withTime(time => {
+		const buffer = new DisconnectBuffer();
+		for (let i = 0; i < 1000; i++) {
+			assertEquals(buffer.add(`event${i}`), []);
+		}
+		time.now = 24 * 3600000;
+		assertEquals(buffer.removeExpired(), []);
+		assertEquals(buffer.drain().length, 1000);
+		assertEquals(buffer.size(), 0);
+	});
+});
+
+Deno.test("DisconnectBuffer drops the oldest events, when it is full", () => {
+	const buffer = new DisconnectBuffer({ maxSize: 2 });
+	buffer.add("a");
+	buffer.add("b");
+	assertEquals(buffer.add("c"), ["a"]);
+	assertEquals(buffer.drain(), ["b", "c"]);
+});
+
+Deno.test("DisconnectBuffer coalesces events with the same key", () => {
+	const buffer = new DisconnectBuffer();
+	buffer.add("pin1=on", "pin1");
+	buffer.add("other");
+	buffer.add("pin2=on", "pin2");
+	assertEquals(buffer.add("pin1=off", "pin1"), ["pin1=on"]);
+	assertEquals(buffer.drain(), ["other", "pin2=on", "pin1=off"]);
+});
+
+Deno.test("DisconnectBuffer removes expired events", () => {
+	withTime(time => {
+		const buffer = new DisconnectBuffer({ ttlMs: 1000 });
+		buffer.add("old");
+		time.now = 500;
+		buffer.add("new");
+		time.now = 1000;
+		assertEquals(buffer.removeExpired(), []);
+		time.now = 1001;
+		assertEquals(buffer.removeExpired(), ["old"]);
+		assertEquals(buffer.drain(), ["new"]);
+	});
+});
+
+Deno.test("DisconnectBuffer clears all events", () => {
+	const buffer = new DisconnectBuffer();
+	buffer.add("a");
+	buffer.clear();
+	assertEquals(buffer.size(), 0);
+	assertEquals(buffer.drain(), []);
+});
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Defines how the connection to the device is established again, when it is lost (or the first connection fails).
+ * Without any policy, reconnect is attempted every second forever.
+ */
+export type ReconnectPolicy = {
+	/**
+	 * Delay in milliseconds before the first reconnect attempt. Default is 1000.
+	 */
+	initialDelayMs?: number;
+	/**
+	 * Multiplier applied to the delay after each attempt. Default is 1 -> constant delay.
+	 */
+	backoffMultiplier?: number;
+	/**
+	 * Upper limit of the delay in milliseconds. Default is 60000.
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Random deviation of the delay as a ratio from 0 to 1, e.g. 0.2 means +-20%. Default is 0.
+	 */
+	jitter?: number;
+	/**
+	 * Maximum number of attempts, before reconnecting gives up. Default is -1 -> infinite.
+	 */
+	maxAttempts?: number;
+	/**
+	 * Maximum time in milliseconds spent reconnecting, measured from the connection loss. Default is -1 -> infinite.
+	 */
+	maxDurationMs?: number;
+};
+
+/**
+ * Computes the delay before the given reconnect attempt.
+ *
+ * @param {ReconnectPolicy} policy - Reconnect policy of the connection.
+ * @param {number} attempt - Number of the attempt, numbered from 1.
+ * @param {number} elapsedMs - Time in milliseconds already spent reconnecting.
+ * @return {number | null} Delay in milliseconds or null, if the policy is exhausted.
+ */
+export function getReconnectDelay(policy: ReconnectPolicy, attempt: number, elapsedMs: number): number | null {
+	const maxAttempts = policy.maxAttempts ?? -1;
+	if (maxAttempts >= 0 && attempt > maxAttempts) {
+		return null;
+	}
+
+	const baseDelayMs = (policy.initialDelayMs ?? 1000) * Math.pow(policy.backoffMultiplier ?? 1, attempt - 1);
+	const cappedDelayMs = Math.min(baseDelayMs, policy.maxDelayMs ?? 60000);
+	const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+	const delayMs = Math.max(0, Math.round(cappedDelayMs * (1 + jitter * (Math.random() * 2 - 1))));
+
+	const maxDurationMs = policy.maxDurationMs ?? -1;
+	if (maxDurationMs >= 0 && elapsedMs + delayMs > maxDurationMs) {
+		return null;
+	}
+	return delayMs;
+}
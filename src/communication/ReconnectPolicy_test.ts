@@ -0,0 +1,53 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@^1.0.0";
+import { getReconnectDelay } from "./ReconnectPolicy.ts";
+
+Deno.test("getReconnectDelay retries every second forever by default", () => {
+	assertEquals(getReconnectDelay({}, 1, 0), 1000);
+	assertEquals(getReconnectDelay({}, 1000, 3600000), 1000);
+});
+
+Deno.test("getReconnectDelay backs off exponentially up to the maximum delay", () => {
+	const policy = { initialDelayMs: 500, backoffMultiplier: 2, maxDelayMs: 5000 };
+	assertEquals(
+		[1, 2, 3, 4, 5, 6].map(attempt => getReconnectDelay(policy, attempt, 0)),
+		[500, 1000, 2000, 4000, 5000, 5000]
+	);
+});
+
+Deno.test("getReconnectDelay gives up after maximum attempts or duration", () => {
+	assertEquals(getReconnectDelay({ maxAttempts: 3 }, 3, 0), 1000);
+	assertEquals(getReconnectDelay({ maxAttempts: 3 }, 4, 0), null);
+	assertEquals(getReconnectDelay({ maxAttempts: 0 }, 1, 0), null);
+
+	// the next attempt must start within the duration
+	assertEquals(getReconnectDelay({ maxDurationMs: 10000 }, 5, 9000), 1000);
+	assertEquals(getReconnectDelay({ maxDurationMs: 10000 }, 5, 9001), null);
+});
+
+Deno.test("getReconnectDelay applies jitter within given ratio", () => {
+	for (let i = 0; i < 100; i++) {
+		const delayMs = getReconnectDelay({ initialDelayMs: 1000, jitter: 0.2 }, 1, 0) as number;
+		assert(delayMs >= 800 && delayMs <= 1200, `delay ${delayMs} is out of jitter range`);
+	}
+	// jitter is limited to 0-1
+	for (let i = 0; i < 100; i++) {
+		const delayMs = getReconnectDelay({ initialDelayMs: 1000, jitter: 5 }, 1, 0) as number;
+		assert(delayMs >= 0 && delayMs <= 2000, `delay ${delayMs} is out of jitter range`);
+	}
+});
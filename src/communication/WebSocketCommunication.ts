@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { Consumer } from "../utils/FunctionalInterfaces.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
 import { IEvent } from "../events/IEvent.ts";
 import { getWsUrl } from "./getUrlAddress.ts";
 import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
@@ -22,8 +22,21 @@ import { INnounceClientResultEvent } from "../events/INnounceClientResultEvent.t
 import { INnounceClientRequestEvent } from "../events/INnounceClientRequestEvent.ts";
 import { ISubscriptionEvent } from "../events/ISubscriptionEvent.ts";
 import { IPollSubscriptionEvent } from "../events/IPollSubscriptionEvent.ts";
+import { ConnectionState, ConnectionStateEvent, ConnectionSubscription, DisconnectReason } from "./ConnectionState.ts";
+import { DisconnectBuffer, DisconnectBufferOptions, DisconnectedSendPolicy, SendOptions } from "./DisconnectBuffer.ts";
+import { getReconnectDelay, ReconnectPolicy } from "./ReconnectPolicy.ts";
+import { ReconnectGaveUpError } from "./ConnectionErrors.ts";
 import { WS_HEARTBEAT_INTERVAL, WS_MISSING_HEARTBEAT_TIMEOUT_MS } from "./constants.ts";
 
+/**
+ * Registration of an event handler.
+ *
+ * @property {Callback} removeListener - Unregisters the handler.
+ */
+export interface EventHandlerSubscription {
+	removeListener: Callback;
+}
+
 /**
  * Manages WebSocket communication for subscribing to events, sending messages,
  * handling responses, and managing reconnection and heartbeat mechanisms.
@@ -35,9 +48,12 @@ export class WebSocketCommunication {
 
 	private socket: WebSocket | null = null;
 	private reconnectTimeout: number = 0;
+	private reconnectPolicy: ReconnectPolicy;
+	private reconnectAttempts: number = 0;
+	private reconnectStartedAt: number = 0;
 	private subscriptionEvents: Array<string> = new Array<string>();
-	private disconnectEventBuffer: Array<string> = new Array<string>();
-	private eventHandlers: Map<string, Consumer<IEvent>> = new Map<string, Consumer<IEvent>>();
+	private disconnectEventBuffer: DisconnectBuffer;
+	private eventHandlers: Map<string, Array<Consumer<IEvent>>> = new Map<string, Array<Consumer<IEvent>>>();
 
 	private eventResultHandlers: Map<string /* requestId */, Consumer<INnounceClientResultEvent>> = new Map<
 		string,
@@ -47,22 +63,41 @@ export class WebSocketCommunication {
 	private heartbeatSendingInterval: number | null = null;
 	private lastIncomeHeartbeat: Date | null = null;
 
+	private connectionState: ConnectionState = ConnectionState.CONNECTING;
+	private disconnectReason: DisconnectReason | null = null;
+	private connectionStateListeners: Array<Consumer<ConnectionStateEvent>> = [];
+
 	/**
 	 * Creates an instance of the class, initializes with the provided hostname and API key, and establishes a connection.
 	 *
 	 * @param {string} hostname - The hostname of the server to connect to.
 	 * @param {string} apiKey - The API key used for authentication (optional).
+	 * @param {NnLoggerConfig} loggerConfig - The configuration object for logger settings.
+	 * @param {ReconnectPolicy} [reconnectPolicy] - Defines how the connection is established again, when it is lost.
+	 * @param {DisconnectBufferOptions} [disconnectBufferOptions] - Limits of the buffer of events sent while the socket is disconnected.
 	 */
-	constructor(hostname: string, apiKey: string | null, loggerConfig: NnLoggerConfig) {
+	constructor(
+		hostname: string,
+		apiKey: string | null,
+		loggerConfig: NnLoggerConfig,
+		reconnectPolicy: ReconnectPolicy = {},
+		disconnectBufferOptions: DisconnectBufferOptions = {}
+	) {
 		this.hostname = hostname;
 		this.apiKey = apiKey;
 		this.loggerConfig = loggerConfig;
+		this.reconnectPolicy = reconnectPolicy;
+		this.disconnectEventBuffer = new DisconnectBuffer(disconnectBufferOptions);
+		this.addEventHandler("heartbeat", () => {
+			this.lastIncomeHeartbeat = new Date();
+		});
 		this.connect();
 	}
 
 	private connect() {
 		clearTimeout(this.reconnectTimeout);
-		if (this.socket != null) {
+		this.reconnectTimeout = 0;
+		if (this.socket != null || this.connectionState === ConnectionState.CLOSED) {
 			return;
 		}
 
@@ -82,19 +117,20 @@ export class WebSocketCommunication {
 			ws.addEventListener("error", (e: Event) => {
 				this.loggerConfig.isEnabledInternal() &&
 					logger.warn("{} - trying to reconnect.", e instanceof ErrorEvent ? e.message : "WebSocket error");
-				this.reconnect();
+				this.reconnect(DisconnectReason.SOCKET_ERROR);
 			});
 			this.socket = ws;
 		} catch (e) {
 			this.loggerConfig.isEnabledInternal() && logger.error("Connecting to websocket failed.");
 			console.error(e);
-			this.reconnect();
+			this.reconnect(DisconnectReason.SOCKET_ERROR);
 		}
 	}
 
 	/**
 	 * Sends an event message.
-	 * If the socket is disconnected, messages are queued and sent as soon as the websocket connects.
+	 * If the socket is disconnected, messages are queued and sent as soon as the websocket connects, unless they expire in the meantime.
+	 * This can be changed per message, see {@link SendOptions}.
 	 *
 	 * Subscription events are handled a bit different:
 	 * They are added to the list of subscriptions and then sent.
@@ -102,15 +138,20 @@ export class WebSocketCommunication {
 	 *
 	 * @param {object} message - The message object to be sent.
 	 * @param {boolean} [isSubscriptionEvent=false] - Indicates if the message is a subscription event. Default is false.
+	 * @param {SendOptions} [sendOptions] - How the message is handled, when the socket is disconnected. Ignored for subscription events.
 	 * @return {void} This method does not return a value.
+	 * @throws {Error} If the connection is closed (see {@link ConnectionState.CLOSED}) or the socket is disconnected and FAIL policy is set
 	 */
-	public sendEvent(message: object, isSubscriptionEvent: boolean = false) {
+	public sendEvent(message: object, isSubscriptionEvent: boolean = false, sendOptions: SendOptions = {}) {
+		if (this.connectionState === ConnectionState.CLOSED) {
+			throw new Error("WebSocket is closed");
+		}
 		const jsonMessage = JSON.stringify(message);
 		if (isSubscriptionEvent) {
 			this.loggerConfig.isEnabledInternal() && logger.debug("Subscription for event: {}", jsonMessage);
 			this.subscriptionEvents.push(jsonMessage);
 		}
-		this.sendMessageToSocket(jsonMessage, isSubscriptionEvent);
+		this.sendMessageToSocket(jsonMessage, isSubscriptionEvent, sendOptions);
 	}
 
 	/**
@@ -120,6 +161,7 @@ export class WebSocketCommunication {
 	 * @param {REQUEST} requestEvent - The request event to be sent, which contains necessary details for processing.
 	 * @param {boolean} [isSubscriptionEvent=false] - Indicates whether the event being sent is a subscription-based event.
 	 * @return {Promise<RESPONSE>} Returns a Promise that resolves with the response event of type RESPONSE if the operation is successful, or rejects if there's a failure or timeout.
+	 * It rejects as well, if the request was dropped from the disconnect buffer (see {@link DisconnectBufferOptions}).
 	 */
 	public async sendEventWithResponse<REQUEST extends INnounceClientRequestEvent, RESPONSE extends INnounceClientResultEvent>(
 		requestEvent: REQUEST,
@@ -141,22 +183,41 @@ export class WebSocketCommunication {
 				}
 			}, 60000);
 		});
-		this.sendEvent(requestEvent, isSubscriptionEvent);
-		const r = await promise;
-		clearTimeout(timeout);
-		return r;
+		try {
+			this.sendEvent(requestEvent, isSubscriptionEvent);
+			return await promise;
+		} catch (e) {
+			this.eventResultHandlers.delete(requestEvent.requestId);
+			throw e;
+		} finally {
+			clearTimeout(timeout);
+		}
 	}
 
 	/**
 	 * Adds an event handler for a specified event type.
 	 * Registers a callback function to handle events of the given type.
+	 * Multiple handlers can be registered for the same type, they are called in order of registration.
 	 *
 	 * @param {string} type - The type of the event to add a handler for.
 	 * @param {Consumer<IEvent>} onEvent - The callback function to handle the event.
-	 * @return {void} This method does not return a value.
+	 * @return {EventHandlerSubscription} An object with a removeListener method to unregister the handler.
 	 */
-	public addEventHandler(type: string, onEvent: Consumer<IEvent>) {
-		this.eventHandlers.set(type, onEvent);
+	public addEventHandler(type: string, onEvent: Consumer<IEvent>): EventHandlerSubscription {
+		const handlers = this.eventHandlers.get(type) ?? [];
+		handlers.push(onEvent);
+		this.eventHandlers.set(type, handlers);
+		return {
+			removeListener: () => {
+				const index = handlers.indexOf(onEvent);
+				if (index >= 0) {
+					handlers.splice(index, 1);
+				}
+				if (handlers.length === 0 && this.eventHandlers.get(type) === handlers) {
+					this.eventHandlers.delete(type);
+				}
+			},
+		};
 	}
 
 	/**
@@ -166,10 +227,15 @@ export class WebSocketCommunication {
 	 * @param {string} responseType - The type of the response expected for the event.
 	 * @param {number} dataEveryMs - The interval, in milliseconds, at which the subscription notifications are expected.
 	 * @param {Consumer<IEvent>} onEvent - The consumer function that handles the received event.
-	 * @return {void} Does not return a value.
+	 * @return {EventHandlerSubscription} An object with a removeListener method to unregister the handler. The subscription on the device is kept.
 	 */
-	public subscribeToEvent(requestType: string, responseType: string, dataEveryMs: number, onEvent: Consumer<IEvent>) {
-		this.eventHandlers.set(responseType, onEvent);
+	public subscribeToEvent(
+		requestType: string,
+		responseType: string,
+		dataEveryMs: number,
+		onEvent: Consumer<IEvent>
+	): EventHandlerSubscription {
+		const subscription = this.addEventHandler(responseType, onEvent);
 		// keepAliveMs 0 = forever until websocket is disconnected
 		const eventSubscription: IPollSubscriptionEvent = {
 			type: requestType,
@@ -179,6 +245,7 @@ export class WebSocketCommunication {
 		};
 
 		this.sendEvent(eventSubscription, true);
+		return subscription;
 	}
 
 	/**
@@ -187,10 +254,10 @@ export class WebSocketCommunication {
 	 * @param {string} requestType - The type of the request that initiates the subscription to the event.
 	 * @param {string} responseType - The type of the response to be handled during the live event subscription.
 	 * @param {Consumer<IEvent>} onEvent - A callback function to handle the event when it occurs.
-	 * @return {void} This method does not return a value.
+	 * @return {EventHandlerSubscription} An object with a removeListener method to unregister the handler. The subscription on the device is kept.
 	 */
-	public subscribeToLiveEvent(requestType: string, responseType: string, onEvent: Consumer<IEvent>) {
-		this.eventHandlers.set(responseType, onEvent);
+	public subscribeToLiveEvent(requestType: string, responseType: string, onEvent: Consumer<IEvent>): EventHandlerSubscription {
+		const subscription = this.addEventHandler(responseType, onEvent);
 		// keepAliveMs 0 = forever until websocket is disconnected
 		const eventSubscription: ISubscriptionEvent = {
 			keepAliveMs: 0,
@@ -199,6 +266,66 @@ export class WebSocketCommunication {
 		};
 
 		this.sendEvent(eventSubscription, true);
+		return subscription;
+	}
+
+	/**
+	 * Returns current state of the connection.
+	 *
+	 * @return {ConnectionState} The connection state.
+	 */
+	public getConnectionState(): ConnectionState {
+		return this.connectionState;
+	}
+
+	/**
+	 * Registers a listener for changes of the connection state.
+	 *
+	 * @param {Consumer<ConnectionStateEvent>} listener - The callback function that receives {@link ConnectionStateEvent}.
+	 * @return {ConnectionSubscription} An object with a removeListener method to unregister the callback.
+	 */
+	public onConnectionStateChange(listener: Consumer<ConnectionStateEvent>): ConnectionSubscription {
+		this.connectionStateListeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.connectionStateListeners.indexOf(listener);
+				if (index >= 0) {
+					this.connectionStateListeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Closes the connection with the normal close code and doesn't establish it again.
+	 * Pending requests are rejected, event handlers and subscriptions are removed and all timers are cleared.
+	 *
+	 * @return {Promise<void>} Promise resolved once the socket is closed.
+	 */
+	public close(): Promise<void> {
+		clearTimeout(this.reconnectTimeout);
+		this.reconnectTimeout = 0;
+		this.setConnectionState(ConnectionState.CLOSED);
+		const socket = this.socket;
+		const closed = new Promise<void>(resolve => {
+			if (!socket || socket.readyState == WebSocket.CLOSED) {
+				resolve();
+				return;
+			}
+			socket.addEventListener("close", () => resolve());
+		});
+		this.disconnect();
+
+		const eventResultHandlers = Array.from(this.eventResultHandlers.entries());
+		this.eventResultHandlers.clear();
+		eventResultHandlers.forEach(([requestId, handler]) =>
+			handler({ type: "connectionClosed", requestId, state: "FAILED", failReason: "Connection was closed" })
+		);
+		this.eventHandlers.clear();
+		this.connectionStateListeners = [];
+		this.subscriptionEvents = [];
+		this.disconnectEventBuffer.clear();
+		return closed;
 	}
 
 	/**
@@ -210,7 +337,7 @@ export class WebSocketCommunication {
 		return !!this.socket && this.socket.readyState == WebSocket.OPEN;
 	}
 
-	private sendMessageToSocket(jsonMessage: string, isSubscriptionEvent: boolean) {
+	private sendMessageToSocket(jsonMessage: string, isSubscriptionEvent: boolean, sendOptions: SendOptions = {}) {
 		if (this.connected()) {
 			this.loggerConfig.isEnabledInternal() && logger.debug("Sending msg to websocket - message {}", jsonMessage);
 			this.socket?.send(jsonMessage);
@@ -225,34 +352,84 @@ export class WebSocketCommunication {
 				);
 			return;
 		}
-		this.disconnectEventBuffer.push(jsonMessage);
+		switch (sendOptions.whenDisconnected ?? DisconnectedSendPolicy.BUFFER) {
+			case DisconnectedSendPolicy.DROP:
+				this.loggerConfig.isEnabledInternal() &&
+					logger.warn("Websocket is not connected. Event is dropped. Event: {}", jsonMessage);
+				return;
+			case DisconnectedSendPolicy.FAIL:
+				throw new Error("WebSocket is not connected");
+		}
+		const dropped = this.disconnectEventBuffer.add(jsonMessage, sendOptions.coalesceKey);
 		this.loggerConfig.isEnabledInternal() &&
 			logger.warn(
 				"Websocket is not connected. Event added into disconnected buffer. Disconnected buffer size:{}. Event: {}",
-				this.disconnectEventBuffer.length,
+				this.disconnectEventBuffer.size(),
 				jsonMessage
 			);
+		dropped.forEach(json => {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Event replaced or dropped from full disconnected buffer. Event: {}", json);
+		});
+		this.failDroppedRequests(dropped, "Request was dropped from disconnected buffer");
 		return;
 	}
 
+	private failDroppedRequests(jsonMessages: Array<string>, failReason: string) {
+		jsonMessages.forEach(json => {
+			const requestId = (JSON.parse(json) as Partial<INnounceClientRequestEvent>).requestId;
+			const handler = requestId !== undefined && this.eventResultHandlers.get(requestId);
+			if (handler) {
+				this.eventResultHandlers.delete(requestId);
+				handler({ type: "requestDropped", requestId, state: "FAILED", failReason });
+			}
+		});
+	}
+
 	private onDisconnect(socket: WebSocket) {
 		if (this.socket != socket) {
 			return;
 		}
 		this.loggerConfig.isEnabledInternal() && logger.info("Websocket disconnected");
-		this.reconnect();
+		this.reconnect(this.disconnectReason ?? DisconnectReason.SERVER_CLOSE);
 	}
 
 	private onConnect() {
 		this.subscriptionEvents.forEach(json => this.sendMessageToSocket(json, true));
-		const disconnectEventBuffer = this.disconnectEventBuffer;
-		this.disconnectEventBuffer = [];
-		disconnectEventBuffer.forEach(json => {
+		const expired = this.disconnectEventBuffer.removeExpired();
+		expired.forEach(json => {
+			this.loggerConfig.isEnabledInternal() && logger.warn("Event expired in disconnected buffer. Event: {}", json);
+		});
+		this.failDroppedRequests(expired, "Request expired in disconnected buffer");
+		this.disconnectEventBuffer.drain().forEach(json => {
 			this.sendMessageToSocket(json, false);
 		});
 		this.startSendHeartBeat();
-		this.addEventHandler("heartbeat", () => {
-			this.lastIncomeHeartbeat = new Date();
+		this.disconnectReason = null;
+		this.reconnectAttempts = 0;
+		this.setConnectionState(ConnectionState.OPEN);
+	}
+
+	private onConnectionLost(reason: DisconnectReason) {
+		// failed attempts of the first connection are still CONNECTING
+		if (this.connectionState !== ConnectionState.CONNECTING) {
+			this.setConnectionState(ConnectionState.RECONNECTING, reason);
+		}
+	}
+
+	private setConnectionState(state: ConnectionState, reason?: DisconnectReason, error?: ReconnectGaveUpError) {
+		if (this.connectionState === state) {
+			return;
+		}
+		const event: ConnectionStateEvent = { state, previousState: this.connectionState, reason, error, timestamp: new Date() };
+		this.connectionState = state;
+		this.loggerConfig.isEnabledInternal() && logger.debug("Connection state changed to {}", state);
+		this.connectionStateListeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (e) {
+				logger.error("Connection state listener failed for state '{}'. Error: {}", state, String(e));
+			}
 		});
 	}
 
@@ -269,10 +446,15 @@ export class WebSocketCommunication {
 			return;
 		}
 
-		const action = this.eventHandlers.get(msgEvent.type);
-		if (action != null) {
-			action(msgEvent);
-		}
+		// copy - handlers may be added or removed by a handler
+		const handlers = [...(this.eventHandlers.get(msgEvent.type) ?? [])];
+		handlers.forEach(handler => {
+			try {
+				handler(msgEvent);
+			} catch (e) {
+				logger.error("Event handler failed for event '{}'. Error: {}", msgEvent.type, String(e));
+			}
+		});
 	}
 
 	private processResponse(resultEvent: INnounceClientResultEvent) {
@@ -286,11 +468,31 @@ export class WebSocketCommunication {
 		this.loggerConfig.isEnabledInternal() && logger.warn("No listener is available for process result event: " + resultEvent);
 	}
 
-	private reconnect() {
+	private reconnect(reason: DisconnectReason) {
+		if (this.reconnectTimeout !== 0 || this.connectionState === ConnectionState.CLOSED) {
+			// reconnect is already scheduled (e.g. both error and close of the socket are received)
+			return;
+		}
+		this.onConnectionLost(reason);
+		if (this.reconnectAttempts === 0) {
+			this.reconnectStartedAt = Date.now();
+		}
+		this.reconnectAttempts++;
+		const elapsedMs = Date.now() - this.reconnectStartedAt;
+		const delayMs = getReconnectDelay(this.reconnectPolicy, this.reconnectAttempts, elapsedMs);
+		if (delayMs === null) {
+			const error = new ReconnectGaveUpError(this.reconnectAttempts - 1, elapsedMs, reason);
+			logger.error("{}", error.message);
+			this.disconnect();
+			this.setConnectionState(ConnectionState.CLOSED, reason, error);
+			return;
+		}
+		this.loggerConfig.isEnabledInternal() && logger.debug("Reconnect attempt {} in {}ms", this.reconnectAttempts, delayMs);
 		this.reconnectTimeout = setTimeout(() => {
+			this.reconnectTimeout = 0;
 			this.disconnect();
 			this.connect();
-		}, 1000);
+		}, delayMs);
 	}
 
 	private disconnect() {
@@ -317,6 +519,7 @@ export class WebSocketCommunication {
 
 			if (this.isHeartbeatTimeout()) {
 				this.loggerConfig.isEnabledInternal() && logger.warn("Close socket due to missing heartbeat");
+				this.disconnectReason = DisconnectReason.MISSING_HEARTBEAT;
 				this.socket?.close(1000, "Missing heartbeat");
 			}
 		}, WS_HEARTBEAT_INTERVAL);
@@ -0,0 +1,129 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@^1.0.0";
+import { WebSocketCommunication } from "./WebSocketCommunication.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocket } from "../testing/FakeWebSocket.ts";
+import { IEvent } from "../events/IEvent.ts";
+import { ConnectionState, ConnectionStateEvent, DisconnectReason } from "./ConnectionState.ts";
+import { ReconnectPolicy } from "./ReconnectPolicy.ts";
+import { ReconnectGaveUpError } from "./ConnectionErrors.ts";
+import { settle } from "../testing/FakeWebSocketCommunication.ts";
+
+/**
+ * Runs the test with the fake global WebSocket and closes the communication afterward, so its timers are cleared.
+ */
+async function withCommunication(
+	test: (communication: WebSocketCommunication) => void | Promise<void>,
+	reconnectPolicy: ReconnectPolicy = { initialDelayMs: 0 }
+) {
+	const restore = FakeWebSocket.install();
+	const communication = new WebSocketCommunication("device", null, NnLoggerConfig.getInstance(), reconnectPolicy);
+	try {
+		await test(communication);
+	} finally {
+		await communication.close();
+		restore();
+	}
+}
+
+Deno.test("WebSocketCommunication passes events to all handlers of the type in order of registration", () =>
+	withCommunication(communication => {
+		const received: Array<string> = [];
+		communication.addEventHandler("callResultEvent", event => received.push(`first:${event.type}`));
+		const second = communication.addEventHandler("callResultEvent", event => received.push(`second:${event.type}`));
+		communication.addEventHandler("callProgressEvent", event => received.push(`other:${event.type}`));
+		FakeWebSocket.last().open();
+
+		FakeWebSocket.last().receive({ type: "callResultEvent" });
+		assertEquals(received, ["first:callResultEvent", "second:callResultEvent"]);
+
+		second.removeListener();
+		second.removeListener();
+		FakeWebSocket.last().receive({ type: "callResultEvent" });
+		assertEquals(received, ["first:callResultEvent", "second:callResultEvent", "first:callResultEvent"]);
+	})
+);
+
+Deno.test("WebSocketCommunication keeps passing events, when a handler fails or removes itself", () =>
+	withCommunication(communication => {
+		const received: Array<string> = [];
+		communication.addEventHandler("callResultEvent", () => {
+			throw new Error("Handler failed");
+		});
+		const once = communication.addEventHandler("callResultEvent", () => {
+			received.push("once");
+			once.removeListener();
+		});
+		communication.addEventHandler("callResultEvent", (event: IEvent) => received.push(event.type));
+		FakeWebSocket.last().open();
+
+		FakeWebSocket.last().receive({ type: "callResultEvent" });
+		FakeWebSocket.last().receive({ type: "callResultEvent" });
+		assertEquals(received, ["once", "callResultEvent", "callResultEvent"]);
+	})
+);
+
+Deno.test("WebSocketCommunication reports connection state changes with the reason of the loss", () =>
+	withCommunication(async communication => {
+		const events: Array<ConnectionStateEvent> = [];
+		communication.onConnectionStateChange(event => events.push(event));
+		const transitions = () => events.map(event => [event.previousState, event.state, event.reason]);
+		assertEquals(communication.getConnectionState(), ConnectionState.CONNECTING);
+
+		FakeWebSocket.last().open();
+		assertEquals(communication.connected(), true);
+		FakeWebSocket.last().close();
+		assertEquals(communication.getConnectionState(), ConnectionState.RECONNECTING);
+		await settle();
+		assertEquals(FakeWebSocket.instances.length, 2);
+		FakeWebSocket.last().open();
+		await communication.close();
+
+		assertEquals(transitions(), [
+			[ConnectionState.CONNECTING, ConnectionState.OPEN, undefined],
+			[ConnectionState.OPEN, ConnectionState.RECONNECTING, DisconnectReason.SERVER_CLOSE],
+			[ConnectionState.RECONNECTING, ConnectionState.OPEN, undefined],
+			[ConnectionState.OPEN, ConnectionState.CLOSED, undefined],
+		]);
+		assertEquals(FakeWebSocket.last().readyState, FakeWebSocket.CLOSED);
+	})
+);
+
+Deno.test("WebSocketCommunication is closed with the error, when reconnecting gives up", () =>
+	withCommunication(
+		async communication => {
+			const events: Array<ConnectionStateEvent> = [];
+			communication.onConnectionStateChange(event => events.push(event));
+			FakeWebSocket.last().open();
+			FakeWebSocket.last().close();
+			await settle();
+			FakeWebSocket.last().close();
+
+			assertEquals(communication.getConnectionState(), ConnectionState.CLOSED);
+			assertEquals(FakeWebSocket.instances.length, 2);
+			assertEquals(events.length, 3);
+			const closed = events[events.length - 1];
+			assertEquals(
+				[closed.previousState, closed.state, closed.reason],
+				[ConnectionState.RECONNECTING, ConnectionState.CLOSED, DisconnectReason.SERVER_CLOSE]
+			);
+			assert(closed.error instanceof ReconnectGaveUpError);
+		},
+		{ initialDelayMs: 0, maxAttempts: 1 }
+	)
+);
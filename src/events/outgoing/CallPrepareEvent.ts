@@ -15,7 +15,7 @@
  */
 
 import { IEvent } from "../IEvent.ts";
-import { PlayLocalFileParam, PlayRemoteFileParam } from "../../nnPagingRouter.ts";
+import { PlayLiveParam, PlayLocalFileParam, PlayRemoteFileParam } from "../../nnPagingRouter.ts";
 
 /**
  * The CallPrepareEvent interface defines the structure for an event that
@@ -90,6 +90,39 @@ interface AudioSourceDto {
 	basicAuthPassword?: string;
 }
 
+/**
+ * Sequence number making generated action IDs unique within the same millisecond.
+ */
+let lastActionIdSequence = 0;
+
+/**
+ * Generates a collision-free action ID from the current timestamp and a sequence number.
+ *
+ * @return {string} Action ID without the SDK prefix.
+ */
+function generateActionId(): string {
+	lastActionIdSequence = (lastActionIdSequence + 1) % Number.MAX_SAFE_INTEGER;
+	return `${Date.now()}_${lastActionIdSequence}`;
+}
+
+/**
+ * Returns key identifying calls with the same audio source and outputs (order of outputs doesn't matter).
+ *
+ * @param {CallPrepareEvent} event - The call prepare event.
+ * @return {string} Identity key of the call.
+ */
+export function getCallIdentityKey(event: CallPrepareEvent): string {
+	const audioSource = event.audioSource;
+	return JSON.stringify([
+		audioSource.sourceType,
+		audioSource.path,
+		audioSource.url,
+		audioSource.filename,
+		audioSource.input,
+		[...event.outputs].sort(),
+	]);
+}
+
 /**
  * Creates a `CallPrepareEvent` object for playing a local file.
  *
@@ -98,7 +131,7 @@ interface AudioSourceDto {
  */
 export function createCallPrepareEventLocalFile(spec: PlayLocalFileParam): CallPrepareEvent {
 	return {
-		actionId: "nnScriptApi__" + (spec.actionId ?? Date.now().toString()),
+		actionId: "nnScriptApi__" + (spec.actionId ?? generateActionId()),
 		priority: spec.priority,
 		partial: spec.partial ?? true,
 		audioSource: {
@@ -117,15 +150,13 @@ export function createCallPrepareEventLocalFile(spec: PlayLocalFileParam): CallP
  * @return {CallPrepareEvent} Returns an object representing the created `CallPrepareEvent` including metadata, priority, and audio source details.
  */
 export function createCallPrepareEventRemoteFile(spec: PlayRemoteFileParam): CallPrepareEvent {
-	const actionId = spec.actionId ?? Date.now().toString();
-
 	const headers: { [p: string]: string } = {};
 	spec.audioSource.headers?.forEach((value, key) => {
 		headers[key] = value;
 	});
 
 	return {
-		actionId: "nnScriptApi__" + (actionId ?? Date.now().toString()),
+		actionId: "nnScriptApi__" + (spec.actionId ?? generateActionId()),
 		priority: spec.priority,
 		partial: spec.partial ?? true,
 		audioSource: {
@@ -143,6 +174,26 @@ export function createCallPrepareEventRemoteFile(spec: PlayRemoteFileParam): Cal
 	};
 }
 
+/**
+ * Creates a `CallPrepareEvent` object for routing a live input.
+ *
+ * @param {PlayLiveParam} spec - The parameters for creating the event, including actionId, priority, input name, etc.
+ * @return {CallPrepareEvent} The constructed `CallPrepareEvent` object.
+ */
+export function createCallPrepareEventLive(spec: PlayLiveParam): CallPrepareEvent {
+	return {
+		actionId: "nnScriptApi__" + (spec.actionId ?? generateActionId()),
+		priority: spec.priority,
+		partial: spec.partial ?? true,
+		audioSource: {
+			sourceType: AudioSourceType.LIVE,
+			input: spec.input,
+		},
+		outputs: spec.outputs,
+		type: "callPrepareEvent",
+	};
+}
+
 /**
  * Enumeration representing different types of audio sources.
  *
@@ -153,7 +204,7 @@ export function createCallPrepareEventRemoteFile(spec: PlayRemoteFileParam): Cal
  * - `FILE`: Represents an audio source retrieved from a stored file that is not local to the system.
  * - `LOCAL_FILE`: Represents an audio source retrieved from a file stored locally on the system.
  */
-enum AudioSourceType {
+export enum AudioSourceType {
 	LIVE = "LIVE",
 	FILE = "FILE",
 	LOCAL_FILE = "LOCAL_FILE",
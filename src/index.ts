@@ -17,3 +17,32 @@
 export { connectDevice } from "./nnounceConnector.ts";
 export { nnounceDevice } from "./nnounceDevice.ts";
 export { RawSocket } from "./rawSocket.ts";
+export { ConnectionState, DisconnectReason } from "./communication/ConnectionState.ts";
+export { ConnectionClosedError, ReconnectGaveUpError } from "./communication/ConnectionErrors.ts";
+export { DisconnectedSendPolicy } from "./communication/DisconnectBuffer.ts";
+export {
+	CallBusyError,
+	CallConnectionLostError,
+	CallDroppedError,
+	CallPrepareError,
+	CallPrepareTimeoutError,
+	CallTimeoutError,
+	DuplicateCallError,
+	EmergencyModeError,
+	MissingFragmentError,
+	PagingRouterClosedError,
+	UnknownOutputError,
+} from "./pagingRouter/CallErrors.ts";
+export { UndeliveredReason } from "./pagingRouter/UndeliveredOutput.ts";
+export { DuplicateActionIdPolicy } from "./pagingRouter/CallHandle.ts";
+export { CallQueueEventType, QueueDropPolicy } from "./pagingRouter/CallQueue.ts";
+export { CallResultStatus } from "./events/incoming/CallResultEvent.ts";
+export { EmergencyState } from "./pagingRouter/EmergencyMode.ts";
+export { PlaylistState } from "./pagingRouter/PlaylistPlayer.ts";
+export { OutputOccupancy } from "./pagingRouter/OutputStatus.ts";
+export { FileCallHistoryStore, MemoryCallHistoryStore } from "./pagingRouter/CallHistory.ts";
+export { ChecksumMethod } from "./pagingRouter/Checksum.ts";
+export { HttpTtsProvider } from "./pagingRouter/TtsProvider.ts";
+export { FakeClock } from "./scheduler/Clock.ts";
+export { FileScheduleStore, MemoryScheduleStore } from "./scheduler/ScheduleStore.ts";
+export { MissedRunPolicy } from "./nnScheduler.ts";
@@ -167,7 +167,8 @@ export class NnControlOutputsDefinition {
 			pin: pin,
 			value: value,
 		};
-		this.webSocket.sendEvent(ioPinOutputSet);
+		// only the last value of the pin is sent after reconnect
+		this.webSocket.sendEvent(ioPinOutputSet, false, { coalesceKey: `${ioPinOutputSet.type}:${ioPinOutputSet.pinType}:${pin}` });
 	}
 
 	private getOutputValue(pin: number): number {
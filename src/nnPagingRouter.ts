@@ -15,33 +15,64 @@
  */
 
 import { WebSocketCommunication } from "./communication/WebSocketCommunication.ts";
-import { createCallPrepareEventLocalFile, createCallPrepareEventRemoteFile } from "./events/outgoing/CallPrepareEvent.ts";
+import { ConnectionState, ConnectionStateEvent, DisconnectReason } from "./communication/ConnectionState.ts";
+import {
+	CallPrepareEvent,
+	createCallPrepareEventLive,
+	createCallPrepareEventLocalFile,
+	createCallPrepareEventRemoteFile,
+	getCallIdentityKey,
+} from "./events/outgoing/CallPrepareEvent.ts";
 import { CallPrepareResultEvent } from "./events/incoming/CallPrepareResultEvent.ts";
 import { createCallStartEvent } from "./events/outgoing/CallStartEvent.ts";
 import { CallResultEvent, CallResultStatus } from "./events/incoming/CallResultEvent.ts";
 import { logger, NnLoggerConfig } from "./utils/LoggerUtil.ts";
 import { createCallCancelEvent } from "./events/outgoing/CallCancelEvent.ts";
-import { CallProgressEvent } from "./events/incoming/CallProgressEvent.ts";
+import { CallProgressEvent, CallProgressStatus } from "./events/incoming/CallProgressEvent.ts";
+import { CallHandle, CallResult, DuplicateActionIdPolicy, LiveCallHandle, toUndeliveredOutputsMap } from "./pagingRouter/CallHandle.ts";
+import {
+	CallBusyError,
+	CallConnectionLostError,
+	CallDroppedError,
+	CallPrepareError,
+	CallPrepareTimeoutError,
+	CallTimeoutError,
+	DuplicateCallError,
+	EmergencyModeError,
+	PagingRouterClosedError,
+} from "./pagingRouter/CallErrors.ts";
+import { Callback, Consumer } from "./utils/FunctionalInterfaces.ts";
+import { CallLifecycleEvent, CallLifecycleStage, CallLifecycleSubscription } from "./pagingRouter/CallLifecycleEvent.ts";
+import { BusyRetryPolicy, getBusyRetryDelay } from "./pagingRouter/BusyRetryPolicy.ts";
+import { ActiveCallInfo, ActiveCallState } from "./pagingRouter/ActiveCallInfo.ts";
+import { AnnouncementSequencePlayer, OutputReservation, PlaySequenceParam, SequenceHandle } from "./pagingRouter/AnnouncementSequence.ts";
+import { ZoneRegistry } from "./pagingRouter/ZoneRegistry.ts";
+import { MessageTemplates, PlayTemplateParam } from "./pagingRouter/MessageTemplates.ts";
+import { ChecksumMethod, computeChecksum, downloadRemoteFile, validateChecksumMethod } from "./pagingRouter/Checksum.ts";
+import { CallHistory } from "./pagingRouter/CallHistory.ts";
+import { EmergencyMode } from "./pagingRouter/EmergencyMode.ts";
+import { RedeliveryPolicy, toUndeliveredOutputs, UndeliveredReason } from "./pagingRouter/UndeliveredOutput.ts";
+import { getTtsCacheKey, TtsAudio, TtsOptions, TtsProvider } from "./pagingRouter/TtsProvider.ts";
+import { OutputStatusTracker } from "./pagingRouter/OutputStatus.ts";
+import { PlaylistParam, PlaylistPlayer } from "./pagingRouter/PlaylistPlayer.ts";
+import { CallQueue, CallQueueEvent, CallQueueOptions, CallQueueSubscription, QueuedCallInfo } from "./pagingRouter/CallQueue.ts";
 
 /**
- * Defines the parameters required for playing a local file.
+ * Defines the parameters common to all calls, whatever the audio source is.
  */
-export type PlayLocalFileParam = {
+export type CallParam = {
 	/**
 	 * Priority of the call. The lower the number, the higher the priority.
 	 */
 	priority: number;
 	/**
-	 * Name of the file saved in the file manager (include folder structure).
-	 */
-	audioFilePath: string;
-	/**
-	 * Router output names, where the call should be played.
+	 * Router output names or zone group names, where the call should be played, see {@link ZoneRegistry}.
 	 */
 	outputs: Array<string>;
 	/**
 	 * Unique identifier of the call.
-	 * If empty, the current timestamp will be used.
+	 * If empty, a unique identifier is generated from the current timestamp.
+	 * If a call with the same identifier is not finished yet, see {@link DuplicateActionIdPolicy}.
 	 */
 	actionId?: string;
 	/**
@@ -50,41 +81,137 @@ export type PlayLocalFileParam = {
 	 * Default is false.
 	 */
 	partial?: boolean;
+	/**
+	 * Defines how the call is restarted, when some of the outputs are busy.
+	 * If empty, the call start is retried every second until the call times out.
+	 */
+	busyRetry?: BusyRetryPolicy;
+	/**
+	 * What triggered the call, e.g. "button:ptt1". It is stored in the call history.
+	 */
+	trigger?: string;
+	/**
+	 * Identical calls (same audio source and outputs) started within this time in milliseconds after this call are suppressed
+	 * and get the handle of this call, e.g. to ignore a bouncing input. Default is 0 -> no suppression.
+	 */
+	suppressIdenticalWithinMs?: number;
+	/**
+	 * Defines how the call is re-delivered to outputs, where it was not played. If empty, the call is not re-delivered.
+	 */
+	redelivery?: RedeliveryPolicy;
+	/**
+	 * Timeouts of the call. If empty, default timeouts of the paging router are used, see {@link NnPagingRouterDefinition.setDefaultTimeouts}.
+	 */
+	timeouts?: CallTimeouts;
+};
+
+/**
+ * Defines the parameters required for playing a local file.
+ */
+export type PlayLocalFileParam = CallParam & {
+	/**
+	 * Name of the file saved in the file manager (include folder structure).
+	 */
+	audioFilePath: string;
 };
 
 /**
  * Represents the parameters required to play a remote file.
  */
-export type PlayRemoteFileParam = {
+export type PlayRemoteFileParam = CallParam & {
 	/**
-	 * Priority of the call. The lower the number, the higher the priority.
+	 * Filename used for caching - should be unique for different content, same for same audio files.
+	 * The cache is managed by the device, use {@link NnPagingRouterDefinition.prefetchRemoteFile} to download the file in advance.
 	 */
-	priority: number;
+	filename: string;
 	/**
-	 * Router output names, where the call should be played.
+	 * Audio source info.
 	 */
-	outputs: Array<string>;
+	audioSource: RemoteFileAudioSource;
+};
+
+/**
+ * Defines the parameters required for routing a live input (e.g. paging microphone) to router outputs.
+ * Live call plays until it is stopped, so it has no call timeout, unless ```timeouts.callTimeoutMs``` is set.
+ */
+export type PlayLiveParam = CallParam & {
 	/**
-	 * Filename used for caching - should be unique for different content, same for same audio files.
+	 * Name of the live input, which should be played.
 	 */
-	filename: string;
+	input: string;
+};
+
+/**
+ * Defines how long the SDK waits for the device, before the call is canceled.
+ * When a timeout expires, the call is canceled on the device and its result is rejected with
+ * {@link CallPrepareTimeoutError} or {@link CallTimeoutError}.
+ */
+export type CallTimeouts = {
 	/**
-	 * Unique identifier of the call.
-	 * If empty, the current timestamp will be used
+	 * Time in milliseconds to wait for the call prepare result (e.g. download of a remote file). Default is 30000.
+	 * Value -1 means no timeout.
 	 */
-	actionId?: string;
+	prepareTimeoutMs?: number;
 	/**
-	 * Whether the call is partial or not.
-	 * Partial call means that not all outputs need to be reached for the call to be successful.
-	 * Default is false.
+	 * Time in milliseconds to wait for the call result after the call is started. Default is 600000, -1 for live calls.
+	 * Value -1 means no timeout (e.g. background music).
 	 */
-	partial?: boolean;
+	callTimeoutMs?: number;
+};
+
+/**
+ * Defines the parameters required for pre-fetching a remote file.
+ * The device downloads the file while preparing a call, so priority and outputs of that call are required.
+ * The call is canceled once it is prepared and it is never started.
+ */
+export type PrefetchRemoteFileParam = Omit<
+	PlayRemoteFileParam,
+	"partial" | "busyRetry" | "trigger" | "suppressIdenticalWithinMs" | "redelivery"
+> & {
 	/**
-	 * Audio source info.
+	 * If set, the script downloads the file first to get its size and checksum computed by this method.
+	 * The checksum is sent to the device, so the device validates, that it caches the same content.
+	 * If ```checksum``` of the audio source is set with the same method, a different computed checksum fails the pre-fetch.
 	 */
-	audioSource: RemoteFileAudioSource;
+	verifyChecksum?: ChecksumMethod;
 };
 
+/**
+ * Result of pre-fetching a remote file.
+ * The device doesn't report size nor computed checksum of the downloaded file. They are present,
+ * if ```verifyChecksum``` of {@link PrefetchRemoteFileParam} is set, otherwise ```checksum``` of the audio source is reported, if it is set.
+ *
+ * @property {string} actionId - Unique identifier of the call used for pre-fetching.
+ * @property {string} filename - Filename the file is cached under.
+ * @property {boolean} prepared - True, if the device downloaded (and validated) the file.
+ * @property {string} [failReason] - Reason reported by the device (or checksum mismatch), if the file couldn't be prepared.
+ * @property {number} [size] - Size of the file in bytes.
+ * @property {string} [checksum] - Checksum of the file validated by the device.
+ * @property {string} [checksumMethod] - Checksum function of the checksum.
+ * @property {Date} finishedAt - Time when the pre-fetch was finished.
+ */
+export interface PrefetchResult {
+	actionId: string;
+	filename: string;
+	prepared: boolean;
+	failReason?: string;
+	size?: number;
+	checksum?: string;
+	checksumMethod?: string;
+	finishedAt: Date;
+}
+
+/**
+ * Defines the parameters required for playing a text rendered by the TTS provider.
+ */
+export type PlayTextParam = TtsOptions &
+	CallParam & {
+		/**
+		 * Text of the announcement.
+		 */
+		text: string;
+	};
+
 /**
  * Represents a source for remote audio file playback, providing support for authentication, headers, and file validation.
  */
@@ -125,13 +252,75 @@ export interface RemoteFileAudioSource {
 	 *    <li>sha3-256</li>
 	 *    <li>sha3-512</li>
 	 * </ul>
+	 * See {@link ChecksumMethod}. Use {@link NnUtilDefinition.withChecksum} to compute the checksum.
 	 */
 	checksumMethod?: string;
 }
 
+/**
+ * Result promise of a call and callbacks settling it.
+ */
+type CallResultWaiting = {
+	result: Promise<CallResult>;
+	resolve: Consumer<CallResult>;
+	reject: Consumer<Error>;
+};
+
+/**
+ * Options of a started call handled by the SDK (not sent to the device).
+ */
+type CallOptions = Pick<CallParam, "busyRetry" | "trigger" | "suppressIdenticalWithinMs" | "redelivery" | "timeouts">;
+
+/**
+ * Progress of re-delivering a call to missed outputs.
+ */
+type RedeliveryState = {
+	canceled: boolean;
+	currentActionId: string;
+};
+
+/**
+ * Recently started call, which suppresses identical calls.
+ */
+type RecentCall = {
+	callHandle: CallHandle;
+	expiresAt: number;
+};
+
+/**
+ * Outputs reserved for a chain of calls, see {@link OutputReservation}.
+ * The reservation is engaged, once the first call of the chain is dispatched.
+ */
+type ReservedOutputs = {
+	priority: number;
+	outputs: Array<string>;
+	actionIds: Set<string>;
+	engaged: boolean;
+};
+
+/**
+ * Pending pre-fetch of a remote file.
+ */
+type PrefetchWaiting = {
+	filename: string;
+	details: Pick<PrefetchResult, "size" | "checksum" | "checksumMethod">;
+	resolve: Consumer<PrefetchResult>;
+	timeout: number;
+};
+
+/**
+ * Progress of restarting a call with busy outputs.
+ */
+type BusyRetryState = {
+	policy: BusyRetryPolicy;
+	attempts: number;
+	firstBusyAt: number;
+	retryTimeout: number;
+};
+
 /**
  * Provides API for processing calls on a device.
- * Local or remote files can be played. Supported formats are:
+ * Local or remote files, live inputs and texts rendered by a TTS provider can be played. Supported file formats are:
  * <ul>
  *     <li>.mp3</li>
  *     <li>.flac</li>
@@ -139,8 +328,54 @@ export interface RemoteFileAudioSource {
  * </ul>
  */
 export class NnPagingRouterDefinition {
+	private static readonly CALL_PREPARE_TIMEOUT_MS = 30000; /*30 seconds*/
+	private static readonly CALL_TIMEOUT_MS = 600000; /*10 minutes*/
+	private static readonly TTS_CACHE_SIZE = 100;
+
+	/**
+	 * Named zone groups, which can be used in call outputs instead of router output names.
+	 */
+	public zones: ZoneRegistry;
+	/**
+	 * Audio fragments and message templates for dynamic announcements.
+	 */
+	public templates: MessageTemplates;
+	/**
+	 * History of finished calls started by the script.
+	 */
+	public history: CallHistory;
+	/**
+	 * Emergency (evacuation) mode, which preempts and locks out all other calls.
+	 */
+	public emergency: EmergencyMode;
+	/**
+	 * Status (occupancy) of router outputs.
+	 */
+	public outputStatus: OutputStatusTracker;
+
 	private callPrepareWaitingMap: Map<string, number> = new Map();
 	private callTimeoutMap: Map<string, number> = new Map();
+	private callTimeoutsMap: Map<string, Required<CallTimeouts>> = new Map();
+	private defaultTimeouts: Required<CallTimeouts> = {
+		prepareTimeoutMs: NnPagingRouterDefinition.CALL_PREPARE_TIMEOUT_MS,
+		callTimeoutMs: NnPagingRouterDefinition.CALL_TIMEOUT_MS,
+	};
+	private callResultWaitingMap: Map<string, CallResultWaiting> = new Map();
+	private busyRetryMap: Map<string, BusyRetryState> = new Map();
+	private prefetchWaitingMap: Map<string, PrefetchWaiting> = new Map();
+	private prefetchedFiles: Map<string, PrefetchResult> = new Map();
+	private recentCalls: Map<string, RecentCall> = new Map();
+	private duplicateActionIdPolicy: DuplicateActionIdPolicy = DuplicateActionIdPolicy.JOIN;
+	private activeCalls: Map<string, ActiveCallInfo> = new Map();
+	private callLifecycleListeners: Map<string, Array<Consumer<CallLifecycleEvent>>> = new Map();
+	private globalCallLifecycleListeners: Array<Consumer<CallLifecycleEvent>> = [];
+	private callQueue: CallQueue;
+	private reservedOutputs: Array<ReservedOutputs> = [];
+	private ttsProvider: TtsProvider | null = null;
+	private ttsCache: Map<string, TtsAudio> = new Map();
+	private sequencePlayer: AnnouncementSequencePlayer;
+	private playlists: Array<PlaylistPlayer> = [];
+	private closed: boolean = false;
 	private webSocket: WebSocketCommunication;
 	private loggerConfig: NnLoggerConfig;
 
@@ -154,9 +389,21 @@ export class NnPagingRouterDefinition {
 	private constructor(webSocket: WebSocketCommunication, loggerConfig: NnLoggerConfig) {
 		this.loggerConfig = loggerConfig;
 		this.webSocket = webSocket;
+		this.callQueue = new CallQueue(loggerConfig);
+		this.zones = ZoneRegistry.getInstance(loggerConfig);
+		this.templates = MessageTemplates.getInstance(loggerConfig);
+		this.sequencePlayer = AnnouncementSequencePlayer.getInstance(
+			this,
+			(priority, outputs) => this.reserveOutputs(priority, outputs),
+			loggerConfig
+		);
+		this.history = CallHistory.getInstance(this, loggerConfig);
+		this.emergency = EmergencyMode.getInstance(this, loggerConfig);
+		this.outputStatus = OutputStatusTracker.getInstance(this, loggerConfig);
 		this.webSocket.addEventHandler("callPrepareResultEvent", event => this.onCallPrepareResultEvent(event as CallPrepareResultEvent));
 		this.webSocket.addEventHandler("callResultEvent", event => this.onCallResultEvent(event as CallResultEvent));
 		this.webSocket.addEventHandler("callProgressEvent", event => this.onCallProgressEvent(event as CallProgressEvent));
+		this.webSocket.onConnectionStateChange(event => this.onConnectionStateChange(event));
 	}
 
 	/**
@@ -172,59 +419,337 @@ export class NnPagingRouterDefinition {
 	 * @param spec Local file specification, see {@link PlayLocalFileParam}
 	 */
 	public playLocalFile(spec: PlayLocalFileParam): string | null {
+		return this.startLocalFileCall(spec).actionId;
+	}
+
+	/**
+	 * This method will start call, playing a remote file.
+	 * @return call actionId. It can be used for future actions (e.g. cancel call)
+	 * @param spec Remote file specification, see {@link PlayRemoteFileParam}
+	 */
+	public playRemoteFile(spec: PlayRemoteFileParam): string | null {
+		return this.startRemoteFileCall(spec).actionId;
+	}
+
+	/**
+	 * This method will start call, playing a local file from the File manager.
+	 * @return {@link CallHandle} settled once the call is finished
+	 * @param spec Local file specification, see {@link PlayLocalFileParam}
+	 */
+	public startLocalFileCall(spec: PlayLocalFileParam): CallHandle {
+		this.checkNotClosed();
 		if (!this.webSocket.connected()) {
 			throw new Error("WebSocket is not connected");
 		}
+		return this.startCall(createCallPrepareEventLocalFile({ ...spec, outputs: this.zones.resolve(spec.outputs) }), spec);
+	}
 
-		const callPrepareEvent = createCallPrepareEventLocalFile(spec);
+	/**
+	 * This method will start call, playing a remote file.
+	 * @return {@link CallHandle} settled once the call is finished
+	 * @param spec Remote file specification, see {@link PlayRemoteFileParam}
+	 */
+	public startRemoteFileCall(spec: PlayRemoteFileParam): CallHandle {
+		this.checkNotClosed();
+		if (!this.webSocket.connected()) {
+			throw new Error("WebSocket is not connected");
+		}
+		validateChecksumMethod(spec.audioSource.checksumMethod);
+		return this.startCall(createCallPrepareEventRemoteFile({ ...spec, outputs: this.zones.resolve(spec.outputs) }), spec);
+	}
 
-		this.callPrepareWaitingMap.set(
-			callPrepareEvent.actionId,
-			setTimeout(() => {
-				// it's already timed out. Just delete it.
-				if (this.callPrepareWaitingMap.delete(callPrepareEvent.actionId)) {
-					this.loggerConfig.isEnabledInternal() && logger.warn("Call prepare result wasn't receive in 30 seconds");
+	/**
+	 * This method will download the remote file to the device cache without playing it, e.g. to avoid a delay of an emergency message.
+	 * The device prepares a call with the file (download and checksum validation) and the call is canceled without being started.
+	 * Set ```verifyChecksum``` to get size and checksum of the file, see {@link PrefetchRemoteFileParam}.
+	 * @return {@link PrefetchResult} once the file is prepared. It is rejected with {@link CallPrepareTimeoutError}, if the device doesn't respond,
+	 * or with an error, if the file couldn't be downloaded by the script for verification.
+	 * @param spec Remote file specification, see {@link PrefetchRemoteFileParam}
+	 */
+	public prefetchRemoteFile(spec: PrefetchRemoteFileParam): Promise<PrefetchResult> {
+		this.checkNotClosed();
+		if (!this.webSocket.connected()) {
+			throw new Error("WebSocket is not connected");
+		}
+		validateChecksumMethod(spec.audioSource.checksumMethod);
+		const outputs = this.zones.resolve(spec.outputs);
+		const method = spec.verifyChecksum;
+		if (!method) {
+			const details = { checksum: spec.audioSource.checksum, checksumMethod: spec.audioSource.checksumMethod };
+			return this.sendPrefetch(createCallPrepareEventRemoteFile({ ...spec, outputs }), spec, details);
+		}
+		validateChecksumMethod(method);
+		return downloadRemoteFile(spec.audioSource).then(async data => {
+			const checksum = await computeChecksum(data, method);
+			const audioSource = spec.audioSource;
+			// checksum of the audio source is validated by the device, if it is set
+			const validated = audioSource.checksum
+				? { checksum: audioSource.checksum, checksumMethod: audioSource.checksumMethod }
+				: { checksum, checksumMethod: method };
+			const callPrepareEvent = createCallPrepareEventRemoteFile({ ...spec, outputs, audioSource: { ...audioSource, ...validated } });
+			if (audioSource.checksum && audioSource.checksumMethod === method && audioSource.checksum.toLowerCase() !== checksum) {
+				this.loggerConfig.isEnabledInternal() && logger.warn("Remote file '{}' has different checksum", spec.filename);
+				return {
+					actionId: callPrepareEvent.actionId,
+					filename: spec.filename,
+					prepared: false,
+					failReason: `Checksum mismatch - expected ${audioSource.checksum}, computed ${checksum}`,
+					size: data.byteLength,
+					checksum,
+					checksumMethod: method,
+					finishedAt: new Date(),
+				};
+			}
+			return this.sendPrefetch(callPrepareEvent, spec, { size: data.byteLength, ...validated });
+		});
+	}
+
+	/**
+	 * Returns remote files successfully pre-fetched by this script, the last result for each filename.
+	 * The device may evict the files from its cache at any time - listing the device cache and evicting files
+	 * is not supported by the device scripting API, see {@link evictPrefetchedFile}.
+	 * @return {Array<PrefetchResult>} Results ordered by filename.
+	 */
+	public getPrefetchedFiles(): Array<PrefetchResult> {
+		return Array.from(this.prefetchedFiles.values())
+			.sort((a, b) => a.filename.localeCompare(b.filename))
+			.map(result => ({ ...result }));
+	}
+
+	/**
+	 * Removes the file from the list of pre-fetched files, e.g. when its content on the server was changed
+	 * and the file should be pre-fetched again, see {@link getPrefetchedFiles}.
+	 * The file is NOT removed from the device cache - evicting files is not supported by the device scripting API.
+	 * To replace the cached content, pre-fetch the new content under a new filename.
+	 * @param filename - filename of the pre-fetched remote file
+	 * @return true, if the file was listed as pre-fetched
+	 */
+	public evictPrefetchedFile(filename: string): boolean {
+		return this.prefetchedFiles.delete(filename);
+	}
+
+	private sendPrefetch(
+		callPrepareEvent: CallPrepareEvent,
+		spec: PrefetchRemoteFileParam,
+		details: PrefetchWaiting["details"]
+	): Promise<PrefetchResult> {
+		const actionId = callPrepareEvent.actionId;
+		const prepareTimeoutMs = spec.timeouts?.prepareTimeoutMs ?? this.defaultTimeouts.prepareTimeoutMs;
+		const result = new Promise<PrefetchResult>((resolve, reject) => {
+			const timeout = this.setCallTimeout(prepareTimeoutMs, () => {
+				if (this.prefetchWaitingMap.delete(actionId)) {
+					this.loggerConfig.isEnabledInternal() &&
+						logger.warn("Pre-fetch result of '{}' wasn't received in {}ms", spec.filename, prepareTimeoutMs);
+					this.trySendEvent(createCallCancelEvent(actionId));
+					reject(new CallPrepareTimeoutError(actionId, prepareTimeoutMs));
 				}
-			}, 30000 /*30 seconds*/)
-		);
+			});
+			this.prefetchWaitingMap.set(actionId, { filename: spec.filename, details, resolve, timeout });
+		});
 
-		this.loggerConfig.isEnabledInternal() && logger.debug("Preparing call '{}'", callPrepareEvent.actionId);
+		this.loggerConfig.isEnabledInternal() && logger.debug("Pre-fetching remote file '{}'", spec.filename);
 		this.webSocket.sendEvent(callPrepareEvent);
-		return callPrepareEvent.actionId;
+		return result;
 	}
 
 	/**
-	 * This method will start call, playing a remote file.
+	 * This method will start live call, routing a live input to router outputs.
+	 * The call plays until it is canceled.
 	 * @return call actionId. It can be used for future actions (e.g. cancel call)
-	 * @param spec Remote file specification, see {@link PlayRemoteFileParam}
+	 * @param spec Live input specification, see {@link PlayLiveParam}
 	 */
-	public playRemoteFile(spec: PlayRemoteFileParam): string | null {
+	public playLive(spec: PlayLiveParam): string | null {
+		return this.startLiveCall(spec).actionId;
+	}
+
+	/**
+	 * This method will start live call, routing a live input to router outputs.
+	 * The call plays until {@link LiveCallHandle.stop} is called.
+	 * @return {@link LiveCallHandle} settled once the call is finished
+	 * @param spec Live input specification, see {@link PlayLiveParam}
+	 */
+	public startLiveCall(spec: PlayLiveParam): LiveCallHandle {
+		this.checkNotClosed();
 		if (!this.webSocket.connected()) {
 			throw new Error("WebSocket is not connected");
 		}
+		const timeouts = { ...spec.timeouts, callTimeoutMs: spec.timeouts?.callTimeoutMs ?? -1 };
+		const callHandle = this.startCall(createCallPrepareEventLive({ ...spec, outputs: this.zones.resolve(spec.outputs) }), {
+			...spec,
+			timeouts,
+		});
+		return {
+			...callHandle,
+			stop: () => callHandle.cancel(),
+		};
+	}
 
-		const callPrepareEvent = createCallPrepareEventRemoteFile(spec);
+	/**
+	 * Sets the text-to-speech engine used for playing texts, see {@link HttpTtsProvider}.
+	 * @param provider - TTS provider or null to remove it
+	 */
+	public setTtsProvider(provider: TtsProvider | null) {
+		this.ttsProvider = provider;
+		this.ttsCache.clear();
+	}
 
-		this.callPrepareWaitingMap.set(
-			callPrepareEvent.actionId,
-			setTimeout(() => {
-				// it's already timed out. Just delete it.
-				if (this.callPrepareWaitingMap.delete(callPrepareEvent.actionId)) {
-					this.loggerConfig.isEnabledInternal() && logger.warn("Call prepare result wasn't receive in 30 seconds");
-				}
-			}, 30000 /*30 seconds*/)
-		);
+	/**
+	 * This method will render the text by the TTS provider and start call playing it as a remote file.
+	 * @return call actionId. It can be used for future actions (e.g. cancel call)
+	 * @param spec Text specification, see {@link PlayTextParam}
+	 */
+	public async playText(spec: PlayTextParam): Promise<string | null> {
+		return (await this.startTextCall(spec)).actionId;
+	}
 
-		this.loggerConfig.isEnabledInternal() && logger.debug("Preparing call '{}'", callPrepareEvent.actionId);
-		this.webSocket.sendEvent(callPrepareEvent);
-		return callPrepareEvent.actionId;
+	/**
+	 * This method will render the text by the TTS provider and start call playing it as a remote file.
+	 * Rendered audio is cached under a filename derived from the text and options,
+	 * so repeated messages are rendered once and reuse the device-side cache of the remote file.
+	 * @return {@link CallHandle} settled once the call is finished
+	 * @param spec Text specification, see {@link PlayTextParam}
+	 */
+	public async startTextCall(spec: PlayTextParam): Promise<CallHandle> {
+		this.checkNotClosed();
+		const ttsProvider = this.ttsProvider;
+		if (!ttsProvider) {
+			throw new Error("TTS provider is not set");
+		}
+		const options: TtsOptions = { language: spec.language, voice: spec.voice };
+		const cacheKey = await getTtsCacheKey(ttsProvider.name, spec.text, options);
+		let audio = this.ttsCache.get(cacheKey);
+		if (audio) {
+			this.ttsCache.delete(cacheKey);
+		} else {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Rendering text by TTS provider '{}'", ttsProvider.name);
+			audio = await ttsProvider.render(spec.text, options);
+		}
+		this.ttsCache.set(cacheKey, audio);
+		if (this.ttsCache.size > NnPagingRouterDefinition.TTS_CACHE_SIZE) {
+			this.ttsCache.delete(this.ttsCache.keys().next().value as string);
+		}
+
+		return this.startRemoteFileCall({
+			priority: spec.priority,
+			outputs: spec.outputs,
+			actionId: spec.actionId,
+			partial: spec.partial,
+			busyRetry: spec.busyRetry,
+			timeouts: spec.timeouts,
+			trigger: spec.trigger,
+			suppressIdenticalWithinMs: spec.suppressIdenticalWithinMs,
+			redelivery: spec.redelivery,
+			filename: `tts-${cacheKey}.${audio.format}`,
+			audioSource: audio.audioSource,
+		});
+	}
+
+	/**
+	 * This method will start announcement sequence - pre-chime, messages (optionally repeated) and post-chime
+	 * played one after another with the same priority to the same outputs.
+	 * The outputs are reserved for the sequence until the last item ends or the sequence is canceled -
+	 * queued calls with the same or lower priority are not dispatched to them between the items, see {@link enableQueue}.
+	 * @return {@link SequenceHandle} settled once the whole sequence is finished. Cancel it to stop the sequence as a single unit.
+	 * @param spec Sequence specification, see {@link PlaySequenceParam}
+	 */
+	public playSequence(spec: PlaySequenceParam): SequenceHandle {
+		this.checkNotClosed();
+		return this.sequencePlayer.play(spec);
+	}
+
+	/**
+	 * This method will render the message template to pre-recorded fragments and play them as an announcement sequence without gaps.
+	 * Missing fragments are reported before the playback starts.
+	 * @return {@link SequenceHandle} settled once the whole message is played
+	 * @param spec Template specification, see {@link PlayTemplateParam}
+	 * @throws {MissingFragmentError} If some of the fragments is not defined for the language
+	 */
+	public playTemplate(spec: PlayTemplateParam): SequenceHandle {
+		const { template, language, values, ...sequence } = spec;
+		const items = this.templates.render(template, language, values).map(audioFilePath => ({ audioFilePath }));
+		return this.playSequence({ ...sequence, items });
+	}
+
+	/**
+	 * This method will create a playlist player (e.g. background music), which loops the tracks with low priority
+	 * and continues with the next track, when a track is interrupted by a call with higher priority.
+	 * The playlist is not started, until {@link PlaylistPlayer.play} is called.
+	 * @return {@link PlaylistPlayer} with play, pause, skip and stop controls
+	 * @param spec Playlist specification, see {@link PlaylistParam}
+	 */
+	public createPlaylist(spec: PlaylistParam): PlaylistPlayer {
+		const playlist = PlaylistPlayer.getInstance(this, this.webSocket, spec, this.loggerConfig);
+		this.playlists.push(playlist);
+		return playlist;
 	}
 
 	/**
-	 * Cancel call with given actionId
+	 * Releases all resources of the paging router - timers of calls are cleared and calls not finished yet
+	 * are rejected with an error. The emergency mode and playlists are stopped, including their calls.
+	 * It is called by {@link NnounceDevice.close} and once the connection is closed (e.g. reconnecting gave up),
+	 * the paging router can't be used afterward - starting a call throws {@link PagingRouterClosedError}.
+	 * @param cancelCalls - if true, active calls are canceled on the device (if still connected), otherwise they keep playing
+	 */
+	public close(cancelCalls: boolean = false) {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.callPrepareWaitingMap.forEach(timeout => clearTimeout(timeout));
+		this.callPrepareWaitingMap.clear();
+		this.callTimeoutMap.forEach(timeout => clearTimeout(timeout));
+		this.callTimeoutMap.clear();
+		this.busyRetryMap.forEach(busyRetry => clearTimeout(busyRetry.retryTimeout));
+		this.prefetchWaitingMap.forEach(prefetch => clearTimeout(prefetch.timeout));
+		this.outputStatus.close();
+
+		this.emergency.clear();
+		this.playlists.forEach(playlist => playlist.stop());
+		if (cancelCalls) {
+			// best effort - the rest of the calls is canceled, if some of them fails
+			Array.from(this.activeCalls.keys()).forEach(actionId => {
+				try {
+					this.cancelCall(actionId);
+				} catch (e) {
+					logger.error("Call '{}' couldn't be canceled. Error: {}", actionId, String(e));
+				}
+			});
+		}
+		const error = new PagingRouterClosedError();
+		Array.from(this.callResultWaitingMap.keys()).forEach(actionId => this.rejectCall(actionId, error));
+		this.prefetchWaitingMap.forEach((prefetch, actionId) => {
+			prefetch.resolve({
+				actionId,
+				filename: prefetch.filename,
+				prepared: false,
+				failReason: error.message,
+				...prefetch.details,
+				finishedAt: new Date(),
+			});
+		});
+		this.prefetchWaitingMap.clear();
+		this.recentCalls.clear();
+		this.reservedOutputs = [];
+	}
+
+	/**
+	 * Cancel call with given actionId.
+	 * Call waiting in the call queue is removed from it and finished with CANCELED state.
 	 * @param actionId - unique identifier of the call
 	 */
 	public cancelCall(actionId: string) {
+		if (this.callQueue.remove(actionId)) {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Queued call '{}' was canceled", actionId);
+			this.resolveCall({
+				type: "callResultEvent",
+				actionId,
+				state: CallResultStatus.CANCELED,
+				failReason: "",
+				undeliveredOutputs: new Map(),
+				undelivered: [],
+			});
+			return;
+		}
 		if (!this.webSocket.connected()) {
 			throw new Error("WebSocket is not connected");
 		}
@@ -232,9 +757,554 @@ export class NnPagingRouterDefinition {
 		this.webSocket.sendEvent(createCallCancelEvent(actionId));
 	}
 
+	/**
+	 * Sets default timeouts of calls, which don't define their own timeouts.
+	 * Unset values keep their current defaults.
+	 *
+	 * @param timeouts - default timeouts, see {@link CallTimeouts}
+	 */
+	public setDefaultTimeouts(timeouts: CallTimeouts) {
+		this.defaultTimeouts = { ...this.defaultTimeouts, ...timeouts };
+	}
+
+	/**
+	 * Sets how a call with actionId of a call, which is not finished yet, is handled.
+	 * Default is {@link DuplicateActionIdPolicy.JOIN}.
+	 *
+	 * @param policy - duplicate actionId policy
+	 */
+	public setDuplicateActionIdPolicy(policy: DuplicateActionIdPolicy) {
+		this.duplicateActionIdPolicy = policy;
+	}
+
+	/**
+	 * Enables the call queue. Calls started by the script wait in the queue, while any of their outputs
+	 * is used by another call started by the script with the same or higher priority.
+	 * Waiting calls are dispatched in priority order, calls with the same priority in order of starting.
+	 * Calling it again replaces the options of the enabled queue.
+	 *
+	 * @example
+	 * device.pagingRouter.enableQueue({ maxDepth: 10, dropPolicy: QueueDropPolicy.DROP_LOWEST_PRIORITY });
+	 * device.pagingRouter.onQueueEvent(event => console.log(event.type, event.call.actionId, event.pending));
+	 *
+	 * @param options - queue options, see {@link CallQueueOptions}
+	 */
+	public enableQueue(options: CallQueueOptions = {}) {
+		this.callQueue.enable(options);
+	}
+
+	/**
+	 * Disables the call queue. All waiting calls are dispatched immediately.
+	 */
+	public disableQueue() {
+		this.callQueue.disable();
+		let callPrepareEvent = this.callQueue.takeNext(() => true);
+		while (callPrepareEvent) {
+			this.prepareCall(callPrepareEvent);
+			callPrepareEvent = this.callQueue.takeNext(() => true);
+		}
+	}
+
+	/**
+	 * Returns calls waiting in the call queue.
+	 *
+	 * @return {Array<QueuedCallInfo>} Snapshot of waiting calls in the order they will be dispatched.
+	 */
+	public getQueuedCalls(): Array<QueuedCallInfo> {
+		return this.callQueue.getPending();
+	}
+
+	/**
+	 * Registers a listener for changes of the call queue (call enqueued, coalesced, dispatched, dropped or removed).
+	 *
+	 * @param listener the callback function that receives {@link CallQueueEvent}
+	 * @return {CallQueueSubscription} An object with a removeListener method to unregister the callback
+	 */
+	public onQueueEvent(listener: Consumer<CallQueueEvent>): CallQueueSubscription {
+		return this.callQueue.onChange(listener);
+	}
+
+	/**
+	 * Returns calls started by the script, which are not finished yet.
+	 *
+	 * @return {Array<ActiveCallInfo>} Snapshot of active calls ordered by start time.
+	 */
+	public getActiveCalls(): Array<ActiveCallInfo> {
+		return Array.from(this.activeCalls.values()).map(call => this.copyActiveCall(call));
+	}
+
+	/**
+	 * Returns the call with given actionId, if it was started by the script and is not finished yet.
+	 *
+	 * @param actionId - unique identifier of the call
+	 * @return {ActiveCallInfo | undefined} Snapshot of the active call or undefined
+	 */
+	public getActiveCall(actionId: string): ActiveCallInfo | undefined {
+		const activeCall = this.activeCalls.get(actionId);
+		return activeCall ? this.copyActiveCall(activeCall) : undefined;
+	}
+
+	/**
+	 * Cancel all calls started by the script, which are not finished yet.
+	 *
+	 * @return {Array<string>} actionIds of canceled calls
+	 */
+	public cancelAll(): Array<string> {
+		return this.cancelActiveCalls(() => true);
+	}
+
+	/**
+	 * Cancel all active calls started by the script, which are played in given router output
+	 * (or in any output of given zone group).
+	 *
+	 * @param output - router output name or zone group name
+	 * @return {Array<string>} actionIds of canceled calls
+	 */
+	public cancelByOutput(output: string): Array<string> {
+		const outputs = this.zones.resolve([output]);
+		return this.cancelActiveCalls(call => call.outputs.some(callOutput => outputs.includes(callOutput)));
+	}
+
+	/**
+	 * Cancel all active calls started by the script with the same or lower priority than given one.
+	 * The lower the number, the higher the priority, e.g. priority 10 cancels calls with priority 10, 11, 12...
+	 *
+	 * @param priority - priority threshold
+	 * @return {Array<string>} actionIds of canceled calls
+	 */
+	public cancelByPriority(priority: number): Array<string> {
+		return this.cancelActiveCalls(call => call.priority >= priority);
+	}
+
+	/**
+	 * Registers a listener for lifecycle stages of all calls started by the script.
+	 * Use {@link CallHandle.onLifecycleEvent} to listen for a single call only.
+	 *
+	 * @param listener the callback function that receives {@link CallLifecycleEvent}
+	 * @return {CallLifecycleSubscription} An object with a removeListener method to unregister the callback
+	 */
+	public onCallLifecycleEvent(listener: Consumer<CallLifecycleEvent>): CallLifecycleSubscription {
+		this.globalCallLifecycleListeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.globalCallLifecycleListeners.indexOf(listener);
+				if (index >= 0) {
+					this.globalCallLifecycleListeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	/**
+	 * @throws {PagingRouterClosedError} If the paging router was closed, see {@link close}
+	 */
+	private checkNotClosed() {
+		if (this.closed) {
+			throw new PagingRouterClosedError();
+		}
+	}
+
+	private cancelActiveCalls(filter: { (call: ActiveCallInfo): boolean }): Array<string> {
+		const actionIds = Array.from(this.activeCalls.values())
+			.filter(filter)
+			.map(call => call.actionId);
+		actionIds.forEach(actionId => this.cancelCall(actionId));
+		return actionIds;
+	}
+
+	private copyActiveCall(activeCall: ActiveCallInfo): ActiveCallInfo {
+		return { ...activeCall, outputs: [...activeCall.outputs], source: { ...activeCall.source } };
+	}
+
+	private setActiveCallState(actionId: string, state: ActiveCallState) {
+		const activeCall = this.activeCalls.get(actionId);
+		if (activeCall) {
+			activeCall.state = state;
+		}
+	}
+
+	private startCall(callPrepareEvent: CallPrepareEvent, options: CallOptions = {}): CallHandle {
+		this.checkNotClosed();
+		if (!this.emergency.isCallAllowed()) {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Emergency mode is active. Call '{}' is refused", callPrepareEvent.actionId);
+			throw new EmergencyModeError(callPrepareEvent.actionId);
+		}
+		if (this.callResultWaitingMap.has(callPrepareEvent.actionId)) {
+			if (this.duplicateActionIdPolicy === DuplicateActionIdPolicy.REJECT) {
+				throw new DuplicateCallError(callPrepareEvent.actionId);
+			}
+			this.loggerConfig.isEnabledInternal() &&
+				logger.debug("Call '{}' is already in progress. Joining it", callPrepareEvent.actionId);
+			return this.createCallHandle(callPrepareEvent.actionId);
+		}
+		const identityKey = getCallIdentityKey(callPrepareEvent);
+		const now = Date.now();
+		this.recentCalls.forEach((recentCall, key) => {
+			if (recentCall.expiresAt <= now) {
+				this.recentCalls.delete(key);
+			}
+		});
+		const recentCall = this.recentCalls.get(identityKey);
+		if (recentCall) {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.debug("Call '{}' is suppressed by identical call '{}'", callPrepareEvent.actionId, recentCall.callHandle.actionId);
+			return recentCall.callHandle;
+		}
+		const queued = this.callQueue.isEnabled();
+		if (queued) {
+			const coalescedActionId = this.callQueue.coalesce(callPrepareEvent);
+			const coalescedCall = coalescedActionId && this.activeCalls.get(coalescedActionId);
+			if (coalescedCall) {
+				this.loggerConfig.isEnabledInternal() &&
+					logger.debug("Call '{}' was coalesced with queued call '{}'", callPrepareEvent.actionId, coalescedCall.actionId);
+				coalescedCall.priority = Math.min(coalescedCall.priority, callPrepareEvent.priority);
+				return this.createCallHandle(coalescedCall.actionId);
+			}
+		}
+
+		const actionId = callPrepareEvent.actionId;
+		let resolve: Consumer<CallResult> = () => {};
+		let reject: Consumer<Error> = () => {};
+		const result = new Promise<CallResult>((resolveResult, rejectResult) => {
+			resolve = resolveResult;
+			reject = rejectResult;
+		});
+		this.callResultWaitingMap.set(actionId, { result, resolve, reject });
+		this.busyRetryMap.set(actionId, { policy: options.busyRetry ?? {}, attempts: 0, firstBusyAt: 0, retryTimeout: 0 });
+		this.callTimeoutsMap.set(actionId, { ...this.defaultTimeouts, ...options.timeouts });
+		const audioSource = callPrepareEvent.audioSource;
+		this.activeCalls.set(actionId, {
+			actionId,
+			priority: callPrepareEvent.priority,
+			outputs: [...callPrepareEvent.outputs],
+			source: {
+				sourceType: audioSource.sourceType,
+				path: audioSource.path,
+				url: audioSource.url,
+				filename: audioSource.filename,
+				input: audioSource.input,
+			},
+			startedAt: new Date(),
+			state: queued ? ActiveCallState.QUEUED : ActiveCallState.PREPARING,
+			trigger: options.trigger,
+		});
+		// result may be never awaited (e.g. playLocalFile) - avoid unhandled promise rejection
+		result.catch(() => {});
+
+		const callHandle = options.redelivery
+			? this.withRedelivery(this.createCallHandle(actionId), callPrepareEvent, options)
+			: this.createCallHandle(actionId);
+		if ((options.suppressIdenticalWithinMs ?? 0) > 0) {
+			this.recentCalls.set(identityKey, { callHandle, expiresAt: now + (options.suppressIdenticalWithinMs ?? 0) });
+		}
+		if (queued) {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Queueing call '{}'", actionId);
+			const droppedActionIds = this.callQueue.add(callPrepareEvent);
+			droppedActionIds.forEach(droppedActionId => this.rejectCall(droppedActionId, new CallDroppedError(droppedActionId)));
+			this.dispatchQueuedCalls();
+		} else {
+			this.prepareCall(callPrepareEvent);
+		}
+		return callHandle;
+	}
+
+	private createCallHandle(actionId: string): CallHandle {
+		return {
+			actionId,
+			result: (this.callResultWaitingMap.get(actionId) as CallResultWaiting).result,
+			cancel: () => this.cancelCall(actionId),
+			onLifecycleEvent: listener => this.addCallLifecycleListener(actionId, listener),
+		};
+	}
+
+	private withRedelivery(callHandle: CallHandle, callPrepareEvent: CallPrepareEvent, options: CallOptions): CallHandle {
+		const redelivery: RedeliveryState = { canceled: false, currentActionId: callHandle.actionId };
+		const result = callHandle.result.then(callResult => this.redeliver(callPrepareEvent, options, callResult, redelivery));
+		// result may be never awaited (e.g. playLocalFile) - avoid unhandled promise rejection
+		result.catch(() => {});
+		return {
+			...callHandle,
+			result,
+			cancel: () => {
+				redelivery.canceled = true;
+				this.cancelCall(redelivery.currentActionId);
+			},
+		};
+	}
+
+	private async redeliver(
+		callPrepareEvent: CallPrepareEvent,
+		options: CallOptions,
+		result: CallResult,
+		redelivery: RedeliveryState
+	): Promise<CallResult> {
+		const policy = options.redelivery as RedeliveryPolicy;
+		const reasons = policy.reasons ?? Object.values(UndeliveredReason).filter(reason => reason !== UndeliveredReason.NOT_FOUND);
+		let undelivered = result.undelivered;
+		const redeliveries: Array<CallResult> = [];
+		for (let attempt = 1; attempt <= policy.maxAttempts && result.state === CallResultStatus.DONE; attempt++) {
+			const outputs = undelivered.filter(output => reasons.includes(output.reason)).map(output => output.output);
+			if (outputs.length == 0) {
+				break;
+			}
+			await new Promise(resolve => setTimeout(resolve, policy.delayMs ?? 1000));
+			if (redelivery.canceled) {
+				break;
+			}
+
+			const actionId = `${callPrepareEvent.actionId}_redelivery${attempt}`;
+			this.loggerConfig.isEnabledInternal() &&
+				logger.debug("Re-delivering call '{}' to outputs: {}", callPrepareEvent.actionId, outputs.join(", "));
+			let redeliveryResult: CallResult;
+			try {
+				const redeliveryCall = this.startCall(
+					{ ...callPrepareEvent, actionId, outputs },
+					{ busyRetry: options.busyRetry, trigger: options.trigger, timeouts: options.timeouts }
+				);
+				redelivery.currentActionId = actionId;
+				redeliveryResult = await redeliveryCall.result;
+			} catch (e) {
+				this.loggerConfig.isEnabledInternal() &&
+					logger.warn("Re-delivery of call '{}' failed: {}", callPrepareEvent.actionId, String(e));
+				break;
+			}
+			redeliveries.push(redeliveryResult);
+			if (redeliveryResult.state !== CallResultStatus.DONE) {
+				break;
+			}
+			undelivered = [
+				...undelivered.filter(output => !outputs.includes(output.output)),
+				...redeliveryResult.undelivered.filter(output => outputs.includes(output.output)),
+			];
+		}
+		if (redeliveries.length == 0) {
+			return result;
+		}
+		return {
+			...result,
+			undelivered,
+			undeliveredOutputs: new Map(undelivered.map(output => [output.output, output.detail])),
+			redeliveries,
+		};
+	}
+
+	private dispatchQueuedCalls() {
+		if (this.closed || !this.webSocket.connected()) {
+			return;
+		}
+		const takeNext = () =>
+			this.callQueue.takeNext(
+				event => this.canDispatch(event),
+				event => this.isHeldByReservation(event)
+			);
+		let callPrepareEvent = takeNext();
+		while (callPrepareEvent) {
+			const actionId = callPrepareEvent.actionId;
+			this.loggerConfig.isEnabledInternal() && logger.debug("Dispatching queued call '{}'", actionId);
+			this.reservedOutputs.forEach(reserved => {
+				if (reserved.actionIds.has(actionId)) {
+					reserved.engaged = true;
+				}
+			});
+			this.prepareCall(callPrepareEvent);
+			callPrepareEvent = takeNext();
+		}
+	}
+
+	/**
+	 * Reserves the outputs for a chain of calls (e.g. announcement sequence). Once the first call of the chain is dispatched,
+	 * queued calls with the same or lower priority are not dispatched to the outputs until the reservation is released,
+	 * so they can't get in between the calls of the chain. Calls with higher priority are dispatched as usual.
+	 */
+	private reserveOutputs(priority: number, outputs: Array<string>): OutputReservation {
+		const reserved: ReservedOutputs = { priority, outputs: this.zones.resolve(outputs), actionIds: new Set(), engaged: false };
+		this.reservedOutputs.push(reserved);
+		return {
+			admit: actionId => {
+				reserved.actionIds.add(actionId);
+				if (!this.callQueue.has(actionId)) {
+					reserved.engaged = true;
+				}
+				this.dispatchQueuedCalls();
+			},
+			release: () => {
+				const index = this.reservedOutputs.indexOf(reserved);
+				if (index >= 0) {
+					this.reservedOutputs.splice(index, 1);
+					this.dispatchQueuedCalls();
+				}
+			},
+		};
+	}
+
+	private isHeldByReservation(callPrepareEvent: CallPrepareEvent): boolean {
+		return this.reservedOutputs.some(
+			reserved =>
+				reserved.engaged &&
+				!reserved.actionIds.has(callPrepareEvent.actionId) &&
+				reserved.priority <= callPrepareEvent.priority &&
+				reserved.outputs.some(output => callPrepareEvent.outputs.includes(output))
+		);
+	}
+
+	private canDispatch(callPrepareEvent: CallPrepareEvent): boolean {
+		return !Array.from(this.activeCalls.values()).some(
+			call =>
+				call.state !== ActiveCallState.QUEUED &&
+				call.priority <= callPrepareEvent.priority &&
+				call.outputs.some(output => callPrepareEvent.outputs.includes(output))
+		);
+	}
+
+	private prepareCall(callPrepareEvent: CallPrepareEvent) {
+		const actionId = callPrepareEvent.actionId;
+		this.setActiveCallState(actionId, ActiveCallState.PREPARING);
+		const prepareTimeoutMs = this.getCallTimeouts(actionId).prepareTimeoutMs;
+		this.callPrepareWaitingMap.set(
+			actionId,
+			this.setCallTimeout(prepareTimeoutMs, () => {
+				// it's already timed out. Just delete it.
+				if (this.callPrepareWaitingMap.delete(actionId)) {
+					this.loggerConfig.isEnabledInternal() && logger.warn("Call prepare result wasn't receive in {}ms", prepareTimeoutMs);
+					this.trySendEvent(createCallCancelEvent(actionId));
+					this.rejectCall(actionId, new CallPrepareTimeoutError(actionId, prepareTimeoutMs));
+				}
+			})
+		);
+
+		this.loggerConfig.isEnabledInternal() && logger.debug("Preparing call '{}'", actionId);
+		this.webSocket.sendEvent(callPrepareEvent);
+	}
+
+	private getCallTimeouts(actionId: string): Required<CallTimeouts> {
+		return this.callTimeoutsMap.get(actionId) ?? this.defaultTimeouts;
+	}
+
+	/**
+	 * Starts the timer, unless the timeout is -1 (no timeout).
+	 * @return timer ID or 0, if no timer was started
+	 */
+	private setCallTimeout(timeoutMs: number, callback: Callback): number {
+		return timeoutMs >= 0 ? setTimeout(callback, timeoutMs) : 0;
+	}
+
+	/**
+	 * Sends the event from a timer callback, where a thrown error would end the script (e.g. the connection is closed).
+	 * @return error, if the event couldn't be sent
+	 */
+	private trySendEvent(event: object): Error | null {
+		try {
+			this.webSocket.sendEvent(event);
+			return null;
+		} catch (e) {
+			this.loggerConfig.isEnabledInternal() && logger.warn("Event couldn't be sent. Error: {}", String(e));
+			return e instanceof Error ? e : new Error(String(e));
+		}
+	}
+
+	private resolveCall(result: CallResult) {
+		this.emitCallLifecycleEvent(result.actionId, CallLifecycleStage.FINISHED, {
+			state: result.state,
+			failReason: result.failReason ?? undefined,
+			undeliveredOutputs: result.undeliveredOutputs,
+		});
+		const callResultWaiting = this.callResultWaitingMap.get(result.actionId);
+		this.finishCall(result.actionId);
+		callResultWaiting?.resolve(result);
+	}
+
+	private rejectCall(actionId: string, error: Error) {
+		this.emitCallLifecycleEvent(actionId, CallLifecycleStage.FAILED, { error });
+		const callResultWaiting = this.callResultWaitingMap.get(actionId);
+		this.finishCall(actionId);
+		callResultWaiting?.reject(error);
+	}
+
+	private finishCall(actionId: string) {
+		this.callResultWaitingMap.delete(actionId);
+		clearTimeout(this.busyRetryMap.get(actionId)?.retryTimeout);
+		this.busyRetryMap.delete(actionId);
+		this.callTimeoutsMap.delete(actionId);
+		this.callLifecycleListeners.delete(actionId);
+		this.activeCalls.delete(actionId);
+		this.callQueue.remove(actionId);
+		this.dispatchQueuedCalls();
+	}
+
+	private addCallLifecycleListener(actionId: string, listener: Consumer<CallLifecycleEvent>): CallLifecycleSubscription {
+		if (this.callResultWaitingMap.has(actionId)) {
+			const listeners = this.callLifecycleListeners.get(actionId) ?? [];
+			listeners.push(listener);
+			this.callLifecycleListeners.set(actionId, listeners);
+		}
+		return {
+			removeListener: () => {
+				const listeners = this.callLifecycleListeners.get(actionId) ?? [];
+				const index = listeners.indexOf(listener);
+				if (index >= 0) {
+					listeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	private emitCallLifecycleEvent(actionId: string, stage: CallLifecycleStage, details: Partial<CallLifecycleEvent> = {}) {
+		const event: CallLifecycleEvent = {
+			actionId,
+			stage,
+			timestamp: new Date(),
+			undeliveredOutputs: new Map(),
+			...details,
+			undelivered: toUndeliveredOutputs(details.undeliveredOutputs ?? new Map()),
+		};
+		const listeners = [...(this.callLifecycleListeners.get(actionId) ?? []), ...this.globalCallLifecycleListeners];
+		listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (e) {
+				logger.error("Call lifecycle listener failed for call '{}' in stage '{}'. Error: {}", actionId, stage, String(e));
+			}
+		});
+	}
+
+	private onConnectionStateChange(event: ConnectionStateEvent) {
+		if (event.state === ConnectionState.CLOSED) {
+			// calls can't be finished once the connection is closed for good (e.g. reconnecting gave up)
+			this.close();
+		} else if (event.previousState === ConnectionState.OPEN) {
+			this.failSentCalls(event.reason);
+		} else if (event.state === ConnectionState.OPEN) {
+			this.dispatchQueuedCalls();
+		}
+	}
+
+	/**
+	 * Rejects calls sent to the device, because their results are lost with the connection.
+	 * Calls waiting in the call queue are dispatched, once the connection is established again.
+	 */
+	private failSentCalls(reason?: DisconnectReason) {
+		Array.from(this.activeCalls.values())
+			.filter(call => call.state !== ActiveCallState.QUEUED)
+			.forEach(call => {
+				const actionId = call.actionId;
+				this.loggerConfig.isEnabledInternal() && logger.warn("Connection was lost during call '{}'", actionId);
+				clearTimeout(this.callPrepareWaitingMap.get(actionId));
+				this.callPrepareWaitingMap.delete(actionId);
+				clearTimeout(this.callTimeoutMap.get(actionId));
+				this.callTimeoutMap.delete(actionId);
+				this.rejectCall(actionId, new CallConnectionLostError(actionId, reason));
+			});
+	}
+
 	private onCallPrepareResultEvent(event: CallPrepareResultEvent) {
+		const prefetchWaiting = this.prefetchWaitingMap.get(event.actionId);
+		if (prefetchWaiting) {
+			this.onPrefetchResult(event, prefetchWaiting);
+			return;
+		}
 		const activeCallPrepareWaiting = this.callPrepareWaitingMap.get(event.actionId);
-		if (!activeCallPrepareWaiting) {
+		if (activeCallPrepareWaiting === undefined) {
 			this.loggerConfig.isEnabledInternal() && logger.warn("Prepare call '{}' was already timed out", event.actionId);
 			return;
 		}
@@ -244,33 +1314,68 @@ export class NnPagingRouterDefinition {
 
 		if (event.failReason) {
 			this.loggerConfig.isEnabledInternal() && logger.warn("Error during preparing call: {}", event.actionId);
+			this.rejectCall(event.actionId, new CallPrepareError(event.actionId, event.failReason));
 			return;
 		}
+		this.setActiveCallState(event.actionId, ActiveCallState.STARTING);
+		this.emitCallLifecycleEvent(event.actionId, CallLifecycleStage.PREPARED);
 
+		const callTimeoutMs = this.getCallTimeouts(event.actionId).callTimeoutMs;
 		this.callTimeoutMap.set(
 			event.actionId,
-			setTimeout(() => {
+			this.setCallTimeout(callTimeoutMs, () => {
 				if (this.callTimeoutMap.delete(event.actionId)) {
-					this.loggerConfig.isEnabledInternal() && logger.warn("Call wasn't finished in 10 minutes.");
+					this.loggerConfig.isEnabledInternal() && logger.warn("Call wasn't finished in {}ms.", callTimeoutMs);
+					clearTimeout(this.busyRetryMap.get(event.actionId)?.retryTimeout);
+					this.trySendEvent(createCallCancelEvent(event.actionId));
+					this.rejectCall(event.actionId, new CallTimeoutError(event.actionId, callTimeoutMs));
 				}
-			}, 600000 /*10 minutes*/)
+			})
 		);
 
 		this.loggerConfig.isEnabledInternal() && logger.debug("Starting call '{}'", event.actionId);
 		this.webSocket.sendEvent(createCallStartEvent(event.actionId));
 	}
 
+	private onPrefetchResult(event: CallPrepareResultEvent, prefetchWaiting: PrefetchWaiting) {
+		clearTimeout(prefetchWaiting.timeout);
+		this.prefetchWaitingMap.delete(event.actionId);
+		if (event.failReason) {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Remote file '{}' couldn't be pre-fetched: {}", prefetchWaiting.filename, event.failReason);
+		} else {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Remote file '{}' was pre-fetched", prefetchWaiting.filename);
+			// release the prepared call on the device
+			this.trySendEvent(createCallCancelEvent(event.actionId));
+		}
+		const result: PrefetchResult = {
+			actionId: event.actionId,
+			filename: prefetchWaiting.filename,
+			prepared: !event.failReason,
+			failReason: event.failReason || undefined,
+			...prefetchWaiting.details,
+			finishedAt: new Date(),
+		};
+		if (result.prepared) {
+			this.prefetchedFiles.set(result.filename, result);
+		}
+		prefetchWaiting.resolve({ ...result });
+	}
+
 	private onCallResultEvent(event: CallResultEvent) {
 		const activeCallWaiting = this.callTimeoutMap.get(event.actionId);
-		if (!activeCallWaiting) {
+		if (activeCallWaiting === undefined) {
 			this.loggerConfig.isEnabledInternal() && logger.warn("Call '{}' was already timed out", event.actionId);
 			return;
 		}
+		const undeliveredOutputs = toUndeliveredOutputsMap(event.undeliveredOutputs);
+		const result: CallResult = { ...event, undeliveredOutputs, undelivered: toUndeliveredOutputs(undeliveredOutputs) };
 
 		if (event.failReason) {
 			this.loggerConfig.isEnabledInternal() && logger.warn("Error during call: '{}': {}", event.actionId, event.failReason);
 			clearTimeout(activeCallWaiting);
-			this.callPrepareWaitingMap.delete(event.actionId);
+			this.callTimeoutMap.delete(event.actionId);
+			this.resolveCall(result);
 			return;
 		}
 
@@ -279,8 +1384,7 @@ export class NnPagingRouterDefinition {
 				this.loggerConfig.isEnabledInternal() && logger.debug("Call '{}' finished", event.actionId);
 				break;
 			case CallResultStatus.BUSY:
-				this.loggerConfig.isEnabledInternal() && logger.debug("Some of the output is busy. Try start again in 1 second");
-				setTimeout(() => this.webSocket.sendEvent(createCallStartEvent(event.actionId)), 1000);
+				this.onCallBusy(result, activeCallWaiting);
 				return;
 			case CallResultStatus.CANCELED:
 				this.loggerConfig.isEnabledInternal() && logger.warn("Call '{}' was canceled", event.actionId);
@@ -297,21 +1401,64 @@ export class NnPagingRouterDefinition {
 		}
 
 		clearTimeout(activeCallWaiting);
-		this.callPrepareWaitingMap.delete(event.actionId);
-		if (event.undeliveredOutputs != null) {
-			Object.entries(event.undeliveredOutputs).forEach(([output, failReason]) => {
-				this.loggerConfig.isEnabledInternal() && logger.warn("Output '{}' wasn't delivered due to: {}", output, failReason);
-			});
+		this.callTimeoutMap.delete(event.actionId);
+		result.undeliveredOutputs.forEach((failReason, output) => {
+			this.loggerConfig.isEnabledInternal() && logger.warn("Output '{}' wasn't delivered due to: {}", output, failReason);
+		});
+		this.resolveCall(result);
+	}
+
+	private onCallBusy(result: CallResult, activeCallWaiting: number) {
+		const busyRetry = this.busyRetryMap.get(result.actionId);
+		if (!busyRetry) {
+			return;
+		}
+		if (busyRetry.attempts == 0) {
+			busyRetry.firstBusyAt = Date.now();
 		}
+		const busyRetryAttempt = busyRetry.attempts + 1;
+		const delayMs = getBusyRetryDelay(busyRetry.policy, busyRetryAttempt, Date.now() - busyRetry.firstBusyAt);
+		if (delayMs == null) {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Some of the output is busy. Call '{}' gave up after {} retries", result.actionId, busyRetry.attempts);
+			clearTimeout(activeCallWaiting);
+			this.callTimeoutMap.delete(result.actionId);
+			// release the prepared call on the device
+			this.webSocket.sendEvent(createCallCancelEvent(result.actionId));
+			this.rejectCall(result.actionId, new CallBusyError(result.actionId, busyRetry.attempts, result.undeliveredOutputs));
+			return;
+		}
+
+		this.loggerConfig.isEnabledInternal() && logger.debug("Some of the output is busy. Try start again in {}ms", delayMs);
+		busyRetry.attempts = busyRetryAttempt;
+		this.setActiveCallState(result.actionId, ActiveCallState.BUSY);
+		this.emitCallLifecycleEvent(result.actionId, CallLifecycleStage.BUSY_RETRY, {
+			busyRetryAttempt,
+			undeliveredOutputs: result.undeliveredOutputs,
+		});
+		busyRetry.retryTimeout = setTimeout(() => {
+			this.setActiveCallState(result.actionId, ActiveCallState.STARTING);
+			const error = this.trySendEvent(createCallStartEvent(result.actionId));
+			if (error) {
+				clearTimeout(this.callTimeoutMap.get(result.actionId));
+				this.callTimeoutMap.delete(result.actionId);
+				this.rejectCall(result.actionId, error);
+			}
+		}, delayMs);
 	}
 
 	private onCallProgressEvent(event: CallProgressEvent) {
 		this.loggerConfig.isEnabledInternal() &&
 			logger.debug("Incoming call progress event for call '{}' with state '{}'", event.actionId, event.state);
-		if (event.undeliveredOutputs != null) {
-			Object.entries(event.undeliveredOutputs).forEach(([output, failReason]) => {
-				this.loggerConfig.isEnabledInternal() && logger.warn("Output '{}' wasn't delivered due to: {}", output, failReason);
-			});
+		const undeliveredOutputs = toUndeliveredOutputsMap(event.undeliveredOutputs);
+		undeliveredOutputs.forEach((failReason, output) => {
+			this.loggerConfig.isEnabledInternal() && logger.warn("Output '{}' wasn't delivered due to: {}", output, failReason);
+		});
+		if (this.callResultWaitingMap.has(event.actionId)) {
+			const partial = event.state == CallProgressStatus.PARTIAL;
+			this.setActiveCallState(event.actionId, partial ? ActiveCallState.PARTIAL : ActiveCallState.PLAYING);
+			const stage = partial ? CallLifecycleStage.PARTIAL : CallLifecycleStage.PLAYING;
+			this.emitCallLifecycleEvent(event.actionId, stage, { undeliveredOutputs });
 		}
 	}
 }
@@ -0,0 +1,515 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { NnPagingRouterDefinition } from "./nnPagingRouter.ts";
+import { NnLoggerConfig } from "./utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication, settle } from "./testing/FakeWebSocketCommunication.ts";
+import {
+	CallBusyError,
+	CallConnectionLostError,
+	CallPrepareError,
+	CallPrepareTimeoutError,
+	CallTimeoutError,
+	DuplicateCallError,
+	PagingRouterClosedError,
+} from "./pagingRouter/CallErrors.ts";
+import { ConnectionState, DisconnectReason } from "./communication/ConnectionState.ts";
+import { ChecksumMethod } from "./pagingRouter/Checksum.ts";
+import { CallResultStatus } from "./events/incoming/CallResultEvent.ts";
+import { CallProgressStatus } from "./events/incoming/CallProgressEvent.ts";
+import { CallLifecycleEvent, CallLifecycleStage } from "./pagingRouter/CallLifecycleEvent.ts";
+import { ActiveCallState } from "./pagingRouter/ActiveCallInfo.ts";
+import { DuplicateActionIdPolicy } from "./pagingRouter/CallHandle.ts";
+import { UndeliveredReason } from "./pagingRouter/UndeliveredOutput.ts";
+
+function createRouter(webSocket: FakeWebSocketCommunication): NnPagingRouterDefinition {
+	return NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+}
+
+Deno.test("Paging router rejects unfinished calls and refuses new calls once closed", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	webSocket.replyPlaying(call.actionId);
+
+	router.close();
+	await assertRejects(() => call.result, PagingRouterClosedError);
+	assertEquals(router.getActiveCalls(), []);
+	assertEquals(webSocket.sentOfType("callCancelEvent"), []);
+
+	assertThrows(() => router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" }), PagingRouterClosedError);
+	assertThrows(
+		() => router.startRemoteFileCall({ priority: 10, outputs: ["Hall"], filename: "a.mp3", audioSource: { url: "http://host/a.mp3" } }),
+		PagingRouterClosedError
+	);
+	assertThrows(() => router.startLiveCall({ priority: 10, outputs: ["Hall"], input: "Mic" }), PagingRouterClosedError);
+	assertThrows(
+		() => router.playSequence({ priority: 10, outputs: ["Hall"], items: [{ audioFilePath: "gong.mp3" }] }),
+		PagingRouterClosedError
+	);
+	await assertRejects(() => router.startTextCall({ priority: 10, outputs: ["Hall"], text: "Hello" }), PagingRouterClosedError);
+});
+
+Deno.test("Paging router cancels active calls on close, if requested", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	webSocket.replyPlaying(call.actionId);
+
+	router.close(true);
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	await assertRejects(() => call.result, PagingRouterClosedError);
+});
+
+Deno.test("Paging router is closed with the connection", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+
+	await webSocket.close();
+	await assertRejects(() => call.result, PagingRouterClosedError);
+	await settle();
+	assertThrows(() => router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" }), PagingRouterClosedError);
+});
+
+Deno.test("Paging router fails calls sent to the device, when the connection is lost", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const preparing = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	const live = router.startLiveCall({ priority: 10, outputs: ["Shop"], input: "Mic" });
+	webSocket.replyPlaying(live.actionId);
+
+	webSocket.setConnectionState(ConnectionState.RECONNECTING, DisconnectReason.SOCKET_ERROR);
+	const error = await assertRejects(() => live.result, CallConnectionLostError);
+	assertEquals((error as CallConnectionLostError).reason, DisconnectReason.SOCKET_ERROR);
+	await assertRejects(() => preparing.result, CallConnectionLostError);
+	assertEquals(router.getActiveCalls(), []);
+	router.close();
+});
+
+Deno.test("Pre-fetched files are listed until they are evicted", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const audioSource = { url: "http://host/alarm.mp3" };
+	const prefetch = router.prefetchRemoteFile({ priority: 10, outputs: ["Hall"], filename: "alarm.mp3", audioSource });
+	const actionId = webSocket.lastPreparedActionId();
+	webSocket.replyPrepared(actionId);
+	const result = await prefetch;
+	assertEquals(result.prepared, true);
+	// the prepared call is released without being started
+	assertEquals(webSocket.sentOfType("callCancelEvent", actionId).length, 1);
+	assertEquals(webSocket.sentOfType("callStartEvent"), []);
+
+	const failed = router.prefetchRemoteFile({ priority: 10, outputs: ["Hall"], filename: "missing.mp3", audioSource });
+	webSocket.replyPrepared(webSocket.lastPreparedActionId(), "Not found");
+	assertEquals((await failed).failReason, "Not found");
+	assertEquals(
+		router.getPrefetchedFiles().map(file => file.filename),
+		["alarm.mp3"]
+	);
+
+	assertEquals(router.evictPrefetchedFile("alarm.mp3"), true);
+	assertEquals(router.evictPrefetchedFile("alarm.mp3"), false);
+	assertEquals(router.getPrefetchedFiles(), []);
+	router.close();
+});
+
+Deno.test("Pre-fetched file is verified by the checksum computed by the script", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const originalFetch = globalThis.fetch;
+	globalThis.fetch = () => Promise.resolve(new Response(new TextEncoder().encode("abc")));
+	try {
+		const prefetch = router.prefetchRemoteFile({
+			priority: 10,
+			outputs: ["Hall"],
+			filename: "alarm.mp3",
+			audioSource: { url: "http://host/alarm.mp3" },
+			verifyChecksum: ChecksumMethod.BLAKE3,
+		});
+		await settle();
+		const callPrepareEvent = webSocket.sentOfType("callPrepareEvent")[0] as { actionId: string; audioSource: { checksum?: string } };
+		assertEquals(callPrepareEvent.audioSource.checksum, "6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85");
+		webSocket.replyPrepared(callPrepareEvent.actionId);
+		const result = await prefetch;
+		assertEquals(result.size, 3);
+		assertEquals(result.checksumMethod, ChecksumMethod.BLAKE3);
+
+		const mismatch = await router.prefetchRemoteFile({
+			priority: 10,
+			outputs: ["Hall"],
+			filename: "changed.mp3",
+			audioSource: { url: "http://host/changed.mp3", checksum: "00", checksumMethod: ChecksumMethod.BLAKE3 },
+			verifyChecksum: ChecksumMethod.BLAKE3,
+		});
+		assertEquals(mismatch.prepared, false);
+		assertEquals(webSocket.sentOfType("callPrepareEvent").length, 1);
+	} finally {
+		globalThis.fetch = originalFetch;
+		router.close();
+	}
+});
+
+Deno.test("Live call routes the input until it is stopped without the default call timeout", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.setDefaultTimeouts({ callTimeoutMs: 10 });
+	const live = router.startLiveCall({ priority: 5, outputs: ["Hall"], input: "Mic" });
+	const file = router.startLocalFileCall({ priority: 10, outputs: ["Shop"], audioFilePath: "gong.mp3" });
+	const limitedLive = router.startLiveCall({ priority: 5, outputs: ["Office"], input: "Mic", timeouts: { callTimeoutMs: 10 } });
+	assertEquals(webSocket.sentOfType("callPrepareEvent", live.actionId)[0].audioSource, { sourceType: "LIVE", input: "Mic" });
+	[live, file, limitedLive].forEach(call => webSocket.replyPlaying(call.actionId));
+
+	await settle(30);
+	await assertRejects(() => file.result, CallTimeoutError);
+	await assertRejects(() => limitedLive.result, CallTimeoutError);
+	assertEquals(
+		router.getActiveCalls().map(call => call.actionId),
+		[live.actionId]
+	);
+
+	live.stop();
+	assertEquals(webSocket.sentOfType("callCancelEvent", live.actionId).length, 1);
+	webSocket.replyResult(live.actionId, CallResultStatus.CANCELED);
+	assertEquals((await live.result).state, CallResultStatus.CANCELED);
+	router.close();
+});
+
+Deno.test("Call handle resolves with the final call result", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startRemoteFileCall({
+		priority: 10,
+		outputs: ["Hall", "Shop"],
+		filename: "news.mp3",
+		audioSource: { url: "http://host/news.mp3" },
+	});
+	assertEquals(webSocket.sentOfType("callPrepareEvent", call.actionId).length, 1);
+	webSocket.replyPrepared(call.actionId);
+	assertEquals(webSocket.sentOfType("callStartEvent", call.actionId).length, 1);
+	webSocket.replyResult(call.actionId, CallResultStatus.DONE, { Shop: "BUSY" });
+
+	const result = await call.result;
+	assertEquals(result.actionId, call.actionId);
+	assertEquals(result.state, CallResultStatus.DONE);
+	assertEquals(result.undeliveredOutputs, new Map([["Shop", "BUSY"]]));
+	router.close();
+});
+
+Deno.test("Call handle is rejected, when the device refuses to prepare the call", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const actionId = router.playLocalFile({ priority: 10, outputs: ["Hall"], audioFilePath: "missing.mp3", actionId: "missing" });
+	assertEquals(actionId, "nnScriptApi__missing");
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "missing.mp3" });
+	webSocket.replyPrepared(call.actionId, "File not found");
+
+	const error = await assertRejects(() => call.result, CallPrepareError);
+	assertEquals((error as CallPrepareError).failReason, "File not found");
+	assertEquals(webSocket.sentOfType("callStartEvent"), []);
+	router.close();
+});
+
+Deno.test("Call handle cancels the call on the device", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	webSocket.replyPlaying(call.actionId);
+
+	call.cancel();
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	webSocket.replyResult(call.actionId, CallResultStatus.CANCELED);
+	assertEquals((await call.result).state, CallResultStatus.CANCELED);
+	router.close();
+});
+
+Deno.test("Call lifecycle events are emitted to call and global listeners", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const globalEvents: Array<CallLifecycleEvent> = [];
+	const globalSubscription = router.onCallLifecycleEvent(event => globalEvents.push(event));
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall", "Shop"], audioFilePath: "gong.mp3", partial: true });
+	const callEvents: Array<CallLifecycleEvent> = [];
+	call.onLifecycleEvent(event => callEvents.push(event));
+
+	webSocket.replyPrepared(call.actionId);
+	webSocket.replyProgress(call.actionId, CallProgressStatus.PARTIAL, { Shop: "OFFLINE" });
+	webSocket.replyResult(call.actionId, CallResultStatus.DONE, { Shop: "OFFLINE" });
+	await call.result;
+
+	assertEquals(
+		callEvents.map(event => event.stage),
+		[CallLifecycleStage.PREPARED, CallLifecycleStage.PARTIAL, CallLifecycleStage.FINISHED]
+	);
+	assertEquals(callEvents[1].undeliveredOutputs, new Map([["Shop", "OFFLINE"]]));
+	assertEquals(callEvents[2].state, CallResultStatus.DONE);
+	assertEquals(globalEvents, callEvents);
+
+	globalSubscription.removeListener();
+	const failing = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "missing.mp3" });
+	const failingEvents: Array<CallLifecycleEvent> = [];
+	failing.onLifecycleEvent(event => failingEvents.push(event));
+	webSocket.replyPrepared(failing.actionId, "File not found");
+	await assertRejects(() => failing.result, CallPrepareError);
+	assertEquals(
+		failingEvents.map(event => event.stage),
+		[CallLifecycleStage.FAILED]
+	);
+	assertEquals(failingEvents[0].error instanceof CallPrepareError, true);
+	assertEquals(globalEvents.length, 3);
+	router.close();
+});
+
+Deno.test("Failing call lifecycle listener doesn't break other listeners", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const stages: Array<CallLifecycleStage> = [];
+	router.onCallLifecycleEvent(() => {
+		throw new Error("Listener failed");
+	});
+	router.onCallLifecycleEvent(event => stages.push(event.stage));
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+
+	webSocket.replyDone(call.actionId);
+	assertEquals((await call.result).state, CallResultStatus.DONE);
+	assertEquals(stages, [CallLifecycleStage.PREPARED, CallLifecycleStage.PLAYING, CallLifecycleStage.FINISHED]);
+	router.close();
+});
+
+Deno.test("Call is started again, while its outputs are busy", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({
+		priority: 10,
+		outputs: ["Hall"],
+		audioFilePath: "gong.mp3",
+		busyRetry: { initialDelayMs: 10, maxAttempts: 2 },
+	});
+	const busyRetryAttempts: Array<number | undefined> = [];
+	call.onLifecycleEvent(event => event.stage === CallLifecycleStage.BUSY_RETRY && busyRetryAttempts.push(event.busyRetryAttempt));
+	webSocket.replyPrepared(call.actionId);
+	webSocket.replyResult(call.actionId, CallResultStatus.BUSY, { Hall: "BUSY" });
+	assertEquals(router.getActiveCall(call.actionId)?.state, ActiveCallState.BUSY);
+
+	await settle(20);
+	assertEquals(webSocket.sentOfType("callStartEvent", call.actionId).length, 2);
+	webSocket.replyResult(call.actionId, CallResultStatus.BUSY, { Hall: "BUSY" });
+	await settle(20);
+	assertEquals(webSocket.sentOfType("callStartEvent", call.actionId).length, 3);
+	webSocket.replyProgress(call.actionId);
+	webSocket.replyResult(call.actionId);
+
+	assertEquals((await call.result).state, CallResultStatus.DONE);
+	assertEquals(busyRetryAttempts, [1, 2]);
+	router.close();
+});
+
+Deno.test("Call gives up waiting for busy outputs, when its busy retry policy is exhausted", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", busyRetry: { failFast: true } });
+	webSocket.replyPrepared(call.actionId);
+	webSocket.replyResult(call.actionId, CallResultStatus.BUSY, { Hall: "BUSY" });
+
+	const error = await assertRejects(() => call.result, CallBusyError);
+	assertEquals((error as CallBusyError).attempts, 0);
+	assertEquals((error as CallBusyError).undeliveredOutputs, new Map([["Hall", "BUSY"]]));
+	// the prepared call is released on the device
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	router.close();
+});
+
+Deno.test("Active calls are listed with their state until they are finished", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const gong = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", trigger: "button:1" });
+	const live = router.startLiveCall({ priority: 5, outputs: ["Shop"], input: "Mic" });
+	webSocket.replyPlaying(live.actionId);
+
+	assertEquals(
+		router.getActiveCalls().map(call => [call.actionId, call.state]),
+		[
+			[gong.actionId, ActiveCallState.PREPARING],
+			[live.actionId, ActiveCallState.PLAYING],
+		]
+	);
+	const info = router.getActiveCall(gong.actionId);
+	assertEquals(info?.trigger, "button:1");
+	assertEquals(info?.source.path, "gong.mp3");
+	// snapshot can't change the registry
+	info?.outputs.push("Shop");
+	assertEquals(router.getActiveCall(gong.actionId)?.outputs, ["Hall"]);
+
+	webSocket.replyDone(gong.actionId);
+	await gong.result;
+	assertEquals(router.getActiveCall(gong.actionId), undefined);
+	assertEquals(router.getActiveCalls().length, 1);
+	router.close();
+});
+
+Deno.test("Active calls are canceled by output, priority or all at once", () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.zones.defineGroup("Ground floor", ["Hall", "Lobby"]);
+	const hall = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "a.mp3" });
+	const lobby = router.startLocalFileCall({ priority: 20, outputs: ["Lobby", "Shop"], audioFilePath: "b.mp3" });
+	const office = router.startLocalFileCall({ priority: 30, outputs: ["Office"], audioFilePath: "c.mp3" });
+	const canceled = () => webSocket.sentOfType("callCancelEvent").map(event => event.actionId);
+
+	assertEquals(router.cancelByOutput("Ground floor"), [hall.actionId, lobby.actionId]);
+	assertEquals(canceled(), [hall.actionId, lobby.actionId]);
+	assertEquals(router.cancelByPriority(25), [office.actionId]);
+	assertEquals(router.cancelAll(), [hall.actionId, lobby.actionId, office.actionId]);
+	router.close();
+});
+
+Deno.test("Call with actionId of an unfinished call joins it or is rejected by the policy", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", actionId: "bell" });
+	const joined = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", actionId: "bell" });
+	assertEquals(joined.actionId, call.actionId);
+	assertEquals(webSocket.preparedActionIds(), [call.actionId]);
+
+	router.setDuplicateActionIdPolicy(DuplicateActionIdPolicy.REJECT);
+	assertThrows(
+		() => router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", actionId: "bell" }),
+		DuplicateCallError
+	);
+	webSocket.replyDone(call.actionId);
+	assertEquals((await joined.result).state, CallResultStatus.DONE);
+	assertEquals((await call.result).state, CallResultStatus.DONE);
+
+	router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", actionId: "bell" });
+	assertEquals(webSocket.preparedActionIds(), [call.actionId, call.actionId]);
+	router.close();
+});
+
+Deno.test("Identical calls are suppressed within the given time", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const spec = { priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3", suppressIdenticalWithinMs: 50 };
+	const call = router.startLocalFileCall(spec);
+	webSocket.replyDone(call.actionId);
+	assertEquals(router.startLocalFileCall(spec), call);
+	assertEquals(router.startLocalFileCall({ ...spec, outputs: ["Yard"] }) === call, false);
+	assertEquals(router.startLocalFileCall({ ...spec, audioFilePath: "chime.mp3" }) === call, false);
+	assertEquals(webSocket.preparedActionIds().length, 3);
+
+	await settle(60);
+	assertEquals(router.startLocalFileCall(spec) === call, false);
+	assertEquals(webSocket.preparedActionIds().length, 4);
+	router.close();
+});
+
+Deno.test("Call is re-delivered to outputs it missed", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({
+		priority: 10,
+		outputs: ["Hall", "Yard", "Gate"],
+		audioFilePath: "gong.mp3",
+		partial: true,
+		redelivery: { maxAttempts: 2, delayMs: 0 },
+	});
+	webSocket.replyPlaying(call.actionId);
+	webSocket.replyResult(call.actionId, CallResultStatus.DONE, { Yard: "Output busy", Gate: "Output not found" });
+	await settle(5);
+	const firstRedelivery = `${call.actionId}_redelivery1`;
+	assertEquals(webSocket.lastPreparedActionId(), firstRedelivery);
+	assertEquals(webSocket.sentOfType("callPrepareEvent", firstRedelivery)[0].outputs, ["Yard"]);
+
+	webSocket.replyPlaying(firstRedelivery);
+	webSocket.replyResult(firstRedelivery, CallResultStatus.DONE, { Yard: "Device offline" });
+	await settle(5);
+	const secondRedelivery = `${call.actionId}_redelivery2`;
+	assertEquals(webSocket.lastPreparedActionId(), secondRedelivery);
+	webSocket.replyDone(secondRedelivery);
+
+	const result = await call.result;
+	assertEquals(
+		result.redeliveries?.map(redelivery => redelivery.actionId),
+		[firstRedelivery, secondRedelivery]
+	);
+	assertEquals(result.undelivered, [{ output: "Gate", reason: UndeliveredReason.NOT_FOUND, detail: "Output not found" }]);
+	assertEquals(result.undeliveredOutputs, new Map([["Gate", "Output not found"]]));
+	router.close();
+});
+
+Deno.test("Call is re-delivered only for reasons of the policy", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const call = router.startLocalFileCall({
+		priority: 10,
+		outputs: ["Hall", "Yard"],
+		audioFilePath: "gong.mp3",
+		partial: true,
+		redelivery: { maxAttempts: 1, delayMs: 0, reasons: [UndeliveredReason.OFFLINE] },
+	});
+	webSocket.replyPlaying(call.actionId);
+	webSocket.replyResult(call.actionId, CallResultStatus.DONE, { Yard: "Output busy" });
+
+	const result = await call.result;
+	assertEquals(result.redeliveries, undefined);
+	assertEquals(result.undelivered, [{ output: "Yard", reason: UndeliveredReason.BUSY, detail: "Output busy" }]);
+	assertEquals(webSocket.preparedActionIds(), [call.actionId]);
+	router.close();
+});
+
+Deno.test("Call is canceled, when the device doesn't prepare it in time", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.setDefaultTimeouts({ prepareTimeoutMs: 10 });
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	const unlimited = router.startLocalFileCall({
+		priority: 10,
+		outputs: ["Yard"],
+		audioFilePath: "gong.mp3",
+		timeouts: { prepareTimeoutMs: -1 },
+	});
+
+	const error = (await assertRejects(() => call.result, CallPrepareTimeoutError)) as CallPrepareTimeoutError;
+	assertEquals(error.actionId, call.actionId);
+	assertEquals(error.timeoutMs, 10);
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	await settle(20);
+	assertEquals(router.getActiveCall(unlimited.actionId)?.state, ActiveCallState.PREPARING);
+	assertEquals(webSocket.sentOfType("callCancelEvent", unlimited.actionId), []);
+	router.close();
+});
+
+Deno.test("Call is canceled, when it isn't finished in time", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.setDefaultTimeouts({ callTimeoutMs: 10 });
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	const longer = router.startLocalFileCall({
+		priority: 10,
+		outputs: ["Yard"],
+		audioFilePath: "gong.mp3",
+		timeouts: { callTimeoutMs: 50 },
+	});
+	webSocket.replyPlaying(call.actionId);
+	webSocket.replyPlaying(longer.actionId);
+
+	await assertRejects(() => call.result, CallTimeoutError);
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	assertEquals(router.getActiveCall(longer.actionId)?.state, ActiveCallState.PLAYING);
+	webSocket.replyResult(longer.actionId);
+	assertEquals((await longer.result).state, CallResultStatus.DONE);
+	router.close();
+});
@@ -0,0 +1,373 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NnPagingRouterDefinition, PlayLocalFileParam, PlayRemoteFileParam } from "./nnPagingRouter.ts";
+import { logger, NnLoggerConfig } from "./utils/LoggerUtil.ts";
+import { Clock, systemClock } from "./scheduler/Clock.ts";
+import { CronExpression } from "./scheduler/CronExpression.ts";
+import { getDefaultTimeZone, isValidTimeZone, toLocalDate } from "./scheduler/ZonedTime.ts";
+import { MemoryScheduleStore, ScheduleStore } from "./scheduler/ScheduleStore.ts";
+
+/**
+ * Defines when the schedule runs:
+ * - ```{ cron: "30 7 * * MON-FRI" }``` - cron expression, see {@link CronExpression}
+ * - ```{ at: new Date("2025-12-24T16:00:00Z") }``` - one-shot run
+ * - ```{ everyMs: 900000, startAt: ... }``` - runs every interval, aligned to ```startAt``` (default is the time of scheduling)
+ */
+export type ScheduleTrigger = { cron: string } | { at: Date | number } | { everyMs: number; startAt?: Date | number };
+
+/**
+ * Enum representing how runs missed while the script was not running (or was blocked) are handled.
+ *
+ * - SKIP: Missed runs are skipped, the schedule continues with the next run.
+ * - RUN_ONCE: All missed runs are merged into a single run executed immediately.
+ */
+export enum MissedRunPolicy {
+	SKIP = "SKIP",
+	RUN_ONCE = "RUN_ONCE",
+}
+
+/**
+ * Information about a single run passed to the schedule action.
+ *
+ * @property {string} scheduleId - Identifier of the schedule.
+ * @property {Date} scheduledAt - Time, when the run was planned.
+ * @property {boolean} missed - True, if the run was missed and it is executed late.
+ */
+export interface ScheduleRun {
+	scheduleId: string;
+	scheduledAt: Date;
+	missed: boolean;
+}
+
+/**
+ * Defines the parameters of a schedule.
+ * Either ```call``` or ```action``` must be set.
+ */
+export type ScheduleParam = {
+	/**
+	 * Unique identifier of the schedule. Keep it stable to detect missed runs across script restarts.
+	 * If empty, it will be generated.
+	 */
+	id?: string;
+	/**
+	 * When the schedule runs, see {@link ScheduleTrigger}.
+	 */
+	trigger: ScheduleTrigger;
+	/**
+	 * Call started on each run.
+	 */
+	call?: PlayLocalFileParam | PlayRemoteFileParam;
+	/**
+	 * Custom action executed on each run.
+	 */
+	action?: { (run: ScheduleRun): unknown };
+	/**
+	 * IANA time zone name (e.g. "Europe/Prague"), in which cron expression and exclusion dates are evaluated.
+	 * Default is the time zone of the device.
+	 */
+	timeZone?: string;
+	/**
+	 * Dates (```YYYY-MM-DD``` in the schedule time zone), when the schedule doesn't run - e.g. holidays.
+	 */
+	excludeDates?: Array<string>;
+	/**
+	 * How missed runs are handled. Default is {@link MissedRunPolicy.SKIP}.
+	 */
+	missedRuns?: MissedRunPolicy;
+	/**
+	 * Run delayed by more than this value is considered as missed. Default is 60000.
+	 */
+	misfireToleranceMs?: number;
+};
+
+/**
+ * Represents a registered schedule.
+ *
+ * @property {string} id - Unique identifier of the schedule.
+ * @property {ScheduleTrigger} trigger - When the schedule runs.
+ * @property {string} timeZone - Time zone of the schedule.
+ * @property {Date | null} nextRunAt - Time of the next run, or null if the schedule won't run anymore.
+ * @property {Date | null} lastRunAt - Planned time of the last executed run, or null if it never ran.
+ */
+export interface ScheduleInfo {
+	id: string;
+	trigger: ScheduleTrigger;
+	timeZone: string;
+	nextRunAt: Date | null;
+	lastRunAt: Date | null;
+}
+
+/**
+ * Registered schedule with its runtime state.
+ */
+type ScheduleEntry = {
+	id: string;
+	spec: ScheduleParam;
+	timeZone: string;
+	cron: CronExpression | null;
+	anchorAt: number;
+	nextRunAt: number | null;
+	timer: number;
+};
+
+/**
+ * Schedules paging router calls or custom actions using cron expressions, one-shot times and intervals.
+ * Run times are computed from the clock, so they don't drift like chained ```setTimeout``` calls.
+ *
+ * @example
+ * device.scheduler.schedule({
+ *     id: "morning-bell",
+ *     trigger: { cron: "0 8 * * MON-FRI" },
+ *     timeZone: "Europe/Prague",
+ *     excludeDates: ["2025-12-24", "2025-12-25"],
+ *     call: { priority: 50, audioFilePath: "bell.mp3", outputs: ["Hall"] },
+ * });
+ */
+export class NnSchedulerDefinition {
+	/**
+	 * Maximum timer delay, longer delays are split (timers overflow after ~24.8 days).
+	 */
+	private static readonly MAX_TIMER_DELAY_MS = 86400000;
+	private static readonly MAX_SKIPPED_RUNS = 1000;
+
+	private pagingRouter: NnPagingRouterDefinition;
+	private loggerConfig: NnLoggerConfig;
+	private clock: Clock;
+	private store: ScheduleStore = new MemoryScheduleStore();
+	private schedules: Map<string, ScheduleEntry> = new Map();
+	private lastScheduleId: number = 0;
+
+	/**
+	 * Private constructor for initializing a new instance of the class.
+	 *
+	 * @param {NnPagingRouterDefinition} pagingRouter - Paging router used to start scheduled calls.
+	 * @param {NnLoggerConfig} loggerConfig - The configuration object for logger settings.
+	 * @param {Clock} clock - Source of time and timers.
+	 */
+	private constructor(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig, clock: Clock) {
+		this.pagingRouter = pagingRouter;
+		this.loggerConfig = loggerConfig;
+		this.clock = clock;
+	}
+
+	/**
+	 * Create new instance. Pass {@link FakeClock} to test schedules.
+	 */
+	public static getInstance(
+		pagingRouter: NnPagingRouterDefinition,
+		loggerConfig: NnLoggerConfig,
+		clock: Clock = systemClock
+	): NnSchedulerDefinition {
+		return new NnSchedulerDefinition(pagingRouter, loggerConfig, clock);
+	}
+
+	/**
+	 * Sets the store of last runs, e.g. {@link FileScheduleStore} to detect runs missed while the script was not running.
+	 * Set it before registering schedules.
+	 *
+	 * @param store Store of last runs
+	 */
+	public setStore(store: ScheduleStore) {
+		this.store = store;
+	}
+
+	/**
+	 * Registers a new schedule. Schedule with the same ID is replaced.
+	 *
+	 * @param spec Schedule specification, see {@link ScheduleParam}
+	 * @return {string} ID of the schedule. It can be used for future actions (e.g. cancel schedule)
+	 * @throws {Error} If the specification is not valid.
+	 */
+	public schedule(spec: ScheduleParam): string {
+		if (!spec.call && !spec.action) {
+			throw new Error("Schedule must define either call or action");
+		}
+		const timeZone = spec.timeZone ?? getDefaultTimeZone();
+		if (!isValidTimeZone(timeZone)) {
+			throw new Error(`Time zone '${timeZone}' is not supported`);
+		}
+		if ("everyMs" in spec.trigger && !(spec.trigger.everyMs > 0)) {
+			throw new Error("Schedule interval must be greater than 0");
+		}
+
+		const id = spec.id ?? `schedule_${++this.lastScheduleId}`;
+		this.cancel(id);
+		const now = this.clock.now();
+		const lastRun = this.store.getLastRun(id);
+		const entry: ScheduleEntry = {
+			id,
+			spec,
+			timeZone,
+			cron: "cron" in spec.trigger ? CronExpression.parse(spec.trigger.cron) : null,
+			// intervals without start time continue from the last run
+			anchorAt: lastRun ?? now,
+			nextRunAt: null,
+			timer: 0,
+		};
+		this.schedules.set(id, entry);
+
+		const missedRunAt =
+			lastRun !== undefined ? this.computeNextRun(entry, lastRun) : "at" in spec.trigger ? this.getTime(spec.trigger.at) : null;
+		if (missedRunAt !== null && missedRunAt <= now) {
+			this.onRunDue(entry, missedRunAt);
+		}
+
+		entry.nextRunAt = this.computeNextRun(entry, now);
+		this.armTimer(entry);
+		this.loggerConfig.isEnabledInternal() &&
+			logger.debug("Schedule '{}' registered. Next run at {}", id, this.formatTime(entry.nextRunAt));
+		return id;
+	}
+
+	/**
+	 * Cancel schedule with given ID.
+	 *
+	 * @param id - unique identifier of the schedule
+	 * @return {boolean} True, if the schedule existed.
+	 */
+	public cancel(id: string): boolean {
+		const entry = this.schedules.get(id);
+		if (!entry) {
+			return false;
+		}
+		this.clock.clearTimeout(entry.timer);
+		this.schedules.delete(id);
+		return true;
+	}
+
+	/**
+	 * Cancel all schedules.
+	 */
+	public cancelAll() {
+		Array.from(this.schedules.keys()).forEach(id => this.cancel(id));
+	}
+
+	/**
+	 * Returns registered schedules.
+	 *
+	 * @return {Array<ScheduleInfo>} Schedules ordered by registration.
+	 */
+	public list(): Array<ScheduleInfo> {
+		return Array.from(this.schedules.values()).map(entry => {
+			const lastRun = this.store.getLastRun(entry.id);
+			return {
+				id: entry.id,
+				trigger: entry.spec.trigger,
+				timeZone: entry.timeZone,
+				nextRunAt: entry.nextRunAt !== null ? new Date(entry.nextRunAt) : null,
+				lastRunAt: lastRun !== undefined ? new Date(lastRun) : null,
+			};
+		});
+	}
+
+	private armTimer(entry: ScheduleEntry) {
+		if (entry.nextRunAt === null) {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Schedule '{}' has no other run", entry.id);
+			this.schedules.delete(entry.id);
+			return;
+		}
+		const delayMs = Math.min(Math.max(entry.nextRunAt - this.clock.now(), 0), NnSchedulerDefinition.MAX_TIMER_DELAY_MS);
+		entry.timer = this.clock.setTimeout(() => this.onTimer(entry), delayMs);
+	}
+
+	private onTimer(entry: ScheduleEntry) {
+		if (this.schedules.get(entry.id) !== entry || entry.nextRunAt === null) {
+			return;
+		}
+		const now = this.clock.now();
+		if (now < entry.nextRunAt) {
+			// long delay was split or timer fired early
+			this.armTimer(entry);
+			return;
+		}
+		this.onRunDue(entry, entry.nextRunAt);
+		entry.nextRunAt = this.computeNextRun(entry, now);
+		this.armTimer(entry);
+	}
+
+	private onRunDue(entry: ScheduleEntry, scheduledAt: number) {
+		const missed = this.clock.now() - scheduledAt > (entry.spec.misfireToleranceMs ?? 60000);
+		if (missed && (entry.spec.missedRuns ?? MissedRunPolicy.SKIP) === MissedRunPolicy.SKIP) {
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Schedule '{}' missed run at {}. Run is skipped", entry.id, this.formatTime(scheduledAt));
+			this.store.setLastRun(entry.id, scheduledAt);
+			return;
+		}
+		this.store.setLastRun(entry.id, scheduledAt);
+		this.run(entry, { scheduleId: entry.id, scheduledAt: new Date(scheduledAt), missed });
+	}
+
+	private run(entry: ScheduleEntry, run: ScheduleRun) {
+		this.loggerConfig.isEnabledInternal() &&
+			logger.debug("Running schedule '{}' planned at {}", entry.id, run.scheduledAt.toISOString());
+		try {
+			if (entry.spec.call) {
+				const call = { ...entry.spec.call, trigger: entry.spec.call.trigger ?? `schedule:${entry.id}` };
+				if ("audioFilePath" in call) {
+					this.pagingRouter.playLocalFile(call);
+				} else {
+					this.pagingRouter.playRemoteFile(call);
+				}
+			}
+			if (entry.spec.action) {
+				Promise.resolve(entry.spec.action(run)).catch(e =>
+					logger.error("Schedule '{}' action failed. Error: {}", entry.id, String(e))
+				);
+			}
+		} catch (e) {
+			logger.error("Schedule '{}' failed. Error: {}", entry.id, String(e));
+		}
+	}
+
+	private computeNextRun(entry: ScheduleEntry, after: number): number | null {
+		let candidate: number | null = this.computeNextOccurrence(entry, after);
+		for (let i = 0; candidate !== null && i < NnSchedulerDefinition.MAX_SKIPPED_RUNS; i++) {
+			if (!entry.spec.excludeDates?.includes(toLocalDate(candidate, entry.timeZone))) {
+				return candidate;
+			}
+			candidate = this.computeNextOccurrence(entry, candidate);
+		}
+		return null;
+	}
+
+	private computeNextOccurrence(entry: ScheduleEntry, after: number): number | null {
+		const trigger = entry.spec.trigger;
+		if (entry.cron) {
+			return entry.cron.next(after, entry.timeZone);
+		}
+		if ("at" in trigger) {
+			const at = this.getTime(trigger.at);
+			return at > after ? at : null;
+		}
+		if ("everyMs" in trigger) {
+			const startAt = trigger.startAt !== undefined ? this.getTime(trigger.startAt) : entry.anchorAt;
+			if (after < startAt) {
+				return startAt;
+			}
+			return startAt + (Math.floor((after - startAt) / trigger.everyMs) + 1) * trigger.everyMs;
+		}
+		return null;
+	}
+
+	private getTime(time: Date | number): number {
+		return time instanceof Date ? time.getTime() : time;
+	}
+
+	private formatTime(time: number | null): string {
+		return time !== null ? new Date(time).toISOString() : "never";
+	}
+}
@@ -0,0 +1,174 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { MissedRunPolicy, NnSchedulerDefinition, ScheduleRun } from "./nnScheduler.ts";
+import { NnPagingRouterDefinition, PlayLocalFileParam } from "./nnPagingRouter.ts";
+import { NnLoggerConfig } from "./utils/LoggerUtil.ts";
+import { FakeClock } from "./scheduler/Clock.ts";
+import { MemoryScheduleStore } from "./scheduler/ScheduleStore.ts";
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+function createScheduler(clock: FakeClock, calls: Array<PlayLocalFileParam> = []): NnSchedulerDefinition {
+	const pagingRouter = {
+		playLocalFile: (call: PlayLocalFileParam) => {
+			calls.push(call);
+			return call.actionId ?? null;
+		},
+	} as unknown as NnPagingRouterDefinition;
+	return NnSchedulerDefinition.getInstance(pagingRouter, NnLoggerConfig.getInstance(), clock);
+}
+
+function recordRuns(runs: Array<ScheduleRun>): { (run: ScheduleRun): void } {
+	return run => {
+		runs.push(run);
+	};
+}
+
+Deno.test("Scheduler runs cron schedule on fake clock", () => {
+	const clock = new FakeClock(Date.parse("2025-01-01T07:59:00Z"));
+	const scheduler = createScheduler(clock);
+	const runs: Array<ScheduleRun> = [];
+	scheduler.schedule({ id: "morning", trigger: { cron: "0 8 * * *" }, timeZone: "UTC", action: recordRuns(runs) });
+
+	clock.advance(59000);
+	assertEquals(runs.length, 0);
+	clock.advance(1000);
+	assertEquals(runs, [{ scheduleId: "morning", scheduledAt: new Date("2025-01-01T08:00:00Z"), missed: false }]);
+	assertEquals(scheduler.list()[0].nextRunAt, new Date("2025-01-02T08:00:00Z"));
+
+	clock.advance(DAY_MS);
+	assertEquals(runs.length, 2);
+});
+
+Deno.test("Scheduler starts scheduled call with schedule trigger", () => {
+	const clock = new FakeClock(Date.parse("2025-01-01T00:00:00Z"));
+	const calls: Array<PlayLocalFileParam> = [];
+	const scheduler = createScheduler(clock, calls);
+	scheduler.schedule({
+		id: "bell",
+		trigger: { at: Date.parse("2025-01-01T00:10:00Z") },
+		call: { priority: 10, outputs: ["Hall"], audioFilePath: "bell.mp3" },
+	});
+
+	clock.advance(10 * 60000);
+	assertEquals(calls, [{ priority: 10, outputs: ["Hall"], audioFilePath: "bell.mp3", trigger: "schedule:bell" }]);
+	assertEquals(scheduler.list(), []);
+});
+
+Deno.test("Scheduler runs interval schedule until it is canceled", () => {
+	const clock = new FakeClock(0);
+	const scheduler = createScheduler(clock);
+	const runs: Array<ScheduleRun> = [];
+	const id = scheduler.schedule({ trigger: { everyMs: 1000, startAt: 500 }, action: recordRuns(runs) });
+
+	clock.advance(2600);
+	assertEquals(
+		runs.map(run => run.scheduledAt.getTime()),
+		[500, 1500, 2500]
+	);
+	assertEquals(scheduler.cancel(id), true);
+	assertEquals(clock.pendingTimers(), 0);
+	clock.advance(5000);
+	assertEquals(runs.length, 3);
+});
+
+Deno.test("Scheduler splits timers longer than one day", () => {
+	const clock = new FakeClock(0);
+	const scheduler = createScheduler(clock);
+	const runs: Array<ScheduleRun> = [];
+	scheduler.schedule({ trigger: { at: 30 * DAY_MS }, action: recordRuns(runs) });
+
+	clock.advance(30 * DAY_MS - 1);
+	assertEquals(runs.length, 0);
+	clock.advance(1);
+	assertEquals(runs.length, 1);
+});
+
+Deno.test("Scheduler skips excluded dates in schedule time zone", () => {
+	const clock = new FakeClock(Date.parse("2025-12-23T12:00:00Z"));
+	const scheduler = createScheduler(clock);
+	const runs: Array<ScheduleRun> = [];
+	scheduler.schedule({
+		trigger: { cron: "0 0 * * *" },
+		timeZone: "Europe/Prague",
+		excludeDates: ["2025-12-24", "2025-12-25"],
+		action: recordRuns(runs),
+	});
+
+	clock.advance(3 * DAY_MS);
+	// midnight of 2025-12-26 in Prague
+	assertEquals(
+		runs.map(run => run.scheduledAt.toISOString()),
+		["2025-12-25T23:00:00.000Z"]
+	);
+});
+
+Deno.test("Scheduler handles runs missed while the script was not running", () => {
+	const clock = new FakeClock(Date.parse("2025-01-01T09:00:00Z"));
+	const lastRun = Date.parse("2024-12-31T08:00:00Z");
+
+	const skipped: Array<ScheduleRun> = [];
+	const skippingStore = new MemoryScheduleStore();
+	skippingStore.setLastRun("morning", lastRun);
+	const skippingScheduler = createScheduler(clock);
+	skippingScheduler.setStore(skippingStore);
+	skippingScheduler.schedule({ id: "morning", trigger: { cron: "0 8 * * *" }, timeZone: "UTC", action: recordRuns(skipped) });
+	assertEquals(skipped, []);
+	assertEquals(skippingStore.getLastRun("morning"), Date.parse("2025-01-01T08:00:00Z"));
+
+	const caughtUp: Array<ScheduleRun> = [];
+	const store = new MemoryScheduleStore();
+	store.setLastRun("morning", lastRun);
+	const catchingUpScheduler = createScheduler(clock);
+	catchingUpScheduler.setStore(store);
+	catchingUpScheduler.schedule({
+		id: "morning",
+		trigger: { cron: "0 8 * * *" },
+		timeZone: "UTC",
+		missedRuns: MissedRunPolicy.RUN_ONCE,
+		action: recordRuns(caughtUp),
+	});
+	assertEquals(caughtUp, [{ scheduleId: "morning", scheduledAt: new Date("2025-01-01T08:00:00Z"), missed: true }]);
+	assertEquals(store.getLastRun("morning"), Date.parse("2025-01-01T08:00:00Z"));
+});
+
+Deno.test("Scheduler rejects invalid schedules", () => {
+	const scheduler = createScheduler(new FakeClock(0));
+	assertThrows(() => scheduler.schedule({ trigger: { everyMs: 1000 } }), Error, "either call or action");
+	assertThrows(() => scheduler.schedule({ trigger: { everyMs: 0 }, action: () => {} }), Error, "greater than 0");
+	assertThrows(
+		() => scheduler.schedule({ trigger: { cron: "0 8 * * *" }, timeZone: "Mars/Base", action: () => {} }),
+		Error,
+		"not supported"
+	);
+});
+
+Deno.test("FakeClock fires due timers in order and can't go back in time", () => {
+	const clock = new FakeClock(1000);
+	const fired: Array<string> = [];
+	clock.setTimeout(() => fired.push("b"), 200);
+	clock.setTimeout(() => fired.push("a"), 100);
+	const canceled = clock.setTimeout(() => fired.push("canceled"), 150);
+	clock.clearTimeout(canceled);
+
+	clock.advance(200);
+	assertEquals(fired, ["a", "b"]);
+	assertEquals(clock.now(), 1200);
+	assertThrows(() => clock.setTime(1100), Error, "back in time");
+});
@@ -23,12 +23,19 @@ import { NnSnmpDefinition } from "./nnSnmp.ts";
 import { NnUtilDefinition } from "./utils/NnUtil.ts";
 import { NnPagingRouterDefinition } from "./nnPagingRouter.ts";
 import { WebSocketCommunication } from "./communication/WebSocketCommunication.ts";
+import { ConnectionState, ConnectionStateEvent, ConnectionSubscription } from "./communication/ConnectionState.ts";
+import { ConnectionClosedError } from "./communication/ConnectionErrors.ts";
+import { ReconnectPolicy } from "./communication/ReconnectPolicy.ts";
+import { DisconnectBufferOptions } from "./communication/DisconnectBuffer.ts";
+import { Clock } from "./scheduler/Clock.ts";
+import { Callback, Consumer } from "./utils/FunctionalInterfaces.ts";
 import { SystemVariablesControlDefinition } from "./nnSystem/SystemVariablesControlDefinition.ts";
 import { SystemDefinition } from "./nnSystem/SystemDefinition.ts";
 import { IOControlStates } from "./ioControl/IOControlStates.ts";
 import { DesignUtil } from "./dspDesign/DesignUtil.ts";
 import { NnButtonsDefinition } from "./nnButtons.ts";
 import { ButtonStates } from "./buttons/ButtonStates.ts";
+import { NnSchedulerDefinition } from "./nnScheduler.ts";
 
 /**
  * Nnounce scripting interface.
@@ -36,7 +43,7 @@ import { ButtonStates } from "./buttons/ButtonStates.ts";
  */
 export interface NnounceScriptingApi {
 	/**
-	 * Play local or remote file.
+	 * Play local or remote file, text or route a live input.
 	 * see {@link NnPagingRouterDefinition}
 	 */
 	pagingRouter: NnPagingRouterDefinition;
@@ -87,23 +94,74 @@ export interface NnounceScriptingApi {
 	 * Handle buttons in momentary or toggle mode.
 	 */
 	buttons: NnButtonsDefinition;
+	/**
+	 * Schedule calls or actions using cron expressions, one-shot times and intervals.
+	 * see {@link NnSchedulerDefinition}
+	 */
+	scheduler: NnSchedulerDefinition;
 	/**
 	 * Function to tell if the device is connected.
 	 */
 	isConnected: () => boolean;
+	/**
+	 * Returns current state of the connection to the device.
+	 */
+	getConnectionState: () => ConnectionState;
+	/**
+	 * Registers a listener for all changes of the connection state, see {@link ConnectionStateEvent}.
+	 */
+	onConnectionStateChange: (listener: Consumer<ConnectionStateEvent>) => ConnectionSubscription;
+	/**
+	 * Registers a callback called whenever the connection is established, including reconnects.
+	 */
+	onConnected: (callback: Callback) => ConnectionSubscription;
+	/**
+	 * Registers a listener called whenever the established connection is lost, e.g. to go into a failsafe state.
+	 */
+	onDisconnected: (listener: Consumer<ConnectionStateEvent>) => ConnectionSubscription;
+	/**
+	 * Registers a callback called whenever the connection is established again after it was lost, e.g. to re-sync a state.
+	 */
+	onReconnected: (callback: Callback) => ConnectionSubscription;
 	/**
 	 * Promise of device connection. If you want to block and wait for the device connection, await on this promise.
+	 * It is rejected with {@link ReconnectGaveUpError}, if the connection couldn't be established, see {@link ConnectionOptions.reconnect}.
 	 */
 	connectionPromise: () => Promise<NnounceScriptingApi>;
+	/**
+	 * Closes the connection to the device and releases all resources (timers, subscriptions, pending requests).
+	 * The device can't be used afterward.
+	 */
+	close: (options?: CloseOptions) => Promise<void>;
+	/**
+	 * Same as {@link close} with default options, allows ```await using device = connectDevice(...)```.
+	 */
+	// @ts-ignore Deno - couldn't generate typings file
+	[Symbol.asyncDispose]: () => Promise<void>;
 }
 
 /**
  * Represents the configuration options for a connection.
  *
  * @property {boolean} [enableInternalLogging] - A flag to indicate whether internal logging is enabled.
+ * @property {ReconnectPolicy} [reconnect] - Defines how the connection is established again, when it is lost. Default is every second forever.
+ * @property {DisconnectBufferOptions} [disconnectBuffer] - Limits of the buffer of events sent while the device is disconnected, unlimited by default.
+ * @property {Clock} [clock] - Source of time and timers of the scheduler. Default is the system clock, use {@link FakeClock} in tests.
  */
 export interface ConnectionOptions {
 	enableInternalLogging?: boolean;
+	reconnect?: ReconnectPolicy;
+	disconnectBuffer?: DisconnectBufferOptions;
+	clock?: Clock;
+}
+
+/**
+ * Represents the options of closing the device.
+ *
+ * @property {boolean} [cancelCalls] - If true, active calls started by the script are canceled. Default is false - calls keep playing.
+ */
+export interface CloseOptions {
+	cancelCalls?: boolean;
 }
 
 /**
@@ -129,6 +187,7 @@ export class NnounceDevice implements NnounceScriptingApi {
 	public snmp: NnSnmpDefinition;
 	public system: NnSystemDefinition;
 	public buttons: NnButtonsDefinition;
+	public scheduler: NnSchedulerDefinition;
 	public util: NnUtilDefinition;
 
 	/**
@@ -148,7 +207,13 @@ export class NnounceDevice implements NnounceScriptingApi {
 		} else {
 			logger.info("Connecting to Nnounce device {} without api key", hostname);
 		}
-		const webSocket = new WebSocketCommunication(hostname, apiKey, nnLoggerConfig);
+		const webSocket = new WebSocketCommunication(
+			hostname,
+			apiKey,
+			nnLoggerConfig,
+			connectionOptions?.reconnect,
+			connectionOptions?.disconnectBuffer
+		);
 		this.webSocket = webSocket;
 		const ioControlStates = IOControlStates.getInstance(webSocket, nnLoggerConfig);
 		const buttonStates = ButtonStates.getInstance(webSocket);
@@ -164,9 +229,19 @@ export class NnounceDevice implements NnounceScriptingApi {
 		const systemDefinition = SystemDefinition.getInstance(webSocket);
 		this.system = NnSystemDefinition.getInstance(systemVariablesControl, systemDefinition);
 		this.buttons = NnButtonsDefinition.getInstance(buttonStates);
+		this.scheduler = NnSchedulerDefinition.getInstance(this.pagingRouter, nnLoggerConfig, connectionOptions?.clock);
 		this.util = NnUtilDefinition.getInstance();
 
-		this._connectionPromise = Promise.all([
+		const closed = new Promise<never>((_, reject) => {
+			const subscription = webSocket.onConnectionStateChange(event => {
+				if (event.state === ConnectionState.CLOSED) {
+					subscription.removeListener();
+					// error is set, if reconnecting gave up, otherwise the device was closed by the script
+					reject(event.error ?? new ConnectionClosedError());
+				}
+			});
+		});
+		const init = Promise.all([
 			systemVariablesControl.init(),
 			systemDefinition.init(),
 			ioControlStates.init(),
@@ -177,6 +252,12 @@ export class NnounceDevice implements NnounceScriptingApi {
 			this.initDone = true;
 			return this;
 		});
+		// rejected with ReconnectGaveUpError, if the device can't be connected, or with ConnectionClosedError, if it was closed before init
+		this._connectionPromise = Promise.race([init, closed]);
+		// connectionPromise may be never awaited (e.g. device closed before init) - avoid unhandled promise rejection
+		this._connectionPromise.catch(() => {});
+		// closed may be never settled or awaited after init - avoid unhandled promise rejection
+		closed.catch(() => {});
 	}
 
 	/**
@@ -188,6 +269,58 @@ export class NnounceDevice implements NnounceScriptingApi {
 		return this.webSocket.connected();
 	}
 
+	/**
+	 * Returns current state of the connection to the device.
+	 *
+	 * @return {ConnectionState} The connection state.
+	 */
+	public getConnectionState(): ConnectionState {
+		return this.webSocket.getConnectionState();
+	}
+
+	/**
+	 * Registers a listener for all changes of the connection state.
+	 *
+	 * @param {Consumer<ConnectionStateEvent>} listener - The callback function that receives {@link ConnectionStateEvent}.
+	 * @return {ConnectionSubscription} An object with a removeListener method to unregister the callback.
+	 */
+	public onConnectionStateChange(listener: Consumer<ConnectionStateEvent>): ConnectionSubscription {
+		return this.webSocket.onConnectionStateChange(listener);
+	}
+
+	/**
+	 * Registers a callback called whenever the connection is established, including reconnects.
+	 *
+	 * @param {Callback} callback - The callback function.
+	 * @return {ConnectionSubscription} An object with a removeListener method to unregister the callback.
+	 */
+	public onConnected(callback: Callback): ConnectionSubscription {
+		return this.webSocket.onConnectionStateChange(event => event.state === ConnectionState.OPEN && callback());
+	}
+
+	/**
+	 * Registers a listener called whenever the established connection is lost.
+	 * ```reason``` of the event tells why the connection was lost.
+	 *
+	 * @param {Consumer<ConnectionStateEvent>} listener - The callback function that receives {@link ConnectionStateEvent}.
+	 * @return {ConnectionSubscription} An object with a removeListener method to unregister the callback.
+	 */
+	public onDisconnected(listener: Consumer<ConnectionStateEvent>): ConnectionSubscription {
+		return this.webSocket.onConnectionStateChange(event => event.previousState === ConnectionState.OPEN && listener(event));
+	}
+
+	/**
+	 * Registers a callback called whenever the connection is established again after it was lost.
+	 *
+	 * @param {Callback} callback - The callback function.
+	 * @return {ConnectionSubscription} An object with a removeListener method to unregister the callback.
+	 */
+	public onReconnected(callback: Callback): ConnectionSubscription {
+		return this.webSocket.onConnectionStateChange(
+			event => event.state === ConnectionState.OPEN && event.previousState === ConnectionState.RECONNECTING && callback()
+		);
+	}
+
 	/**
 	 * Checks whether the initialization process has been completed.
 	 *
@@ -200,10 +333,35 @@ export class NnounceDevice implements NnounceScriptingApi {
 	/**
 	 * Returns a promise that resolves to an instance of the NnounceScriptingApi.
 	 * This Promise resolves once the WebSocket connection is successful.
+	 * It is rejected with {@link ReconnectGaveUpError}, if the device can't be connected,
+	 * or with {@link ConnectionClosedError}, if the device is closed before the connection is established.
 	 *
 	 * @return {Promise<NnounceScriptingApi>} A promise that resolves to the NnounceScriptingApi object.
 	 */
 	public connectionPromise(): Promise<NnounceScriptingApi> {
 		return this._connectionPromise;
 	}
+
+	/**
+	 * Closes the connection to the device and releases all resources - schedules are canceled, paging router timers are cleared,
+	 * pending requests are rejected and the socket is closed with the normal close code.
+	 * The device can't be used afterward.
+	 *
+	 * @param {CloseOptions} [options] - Optional settings, e.g. whether active calls should be canceled.
+	 * @return {Promise<void>} A promise resolved once the socket is closed.
+	 */
+	public async close(options?: CloseOptions): Promise<void> {
+		logger.info("Closing connection to Nnounce device");
+		this.scheduler.cancelAll();
+		this.pagingRouter.close(options?.cancelCalls ?? false);
+		await this.webSocket.close();
+	}
+
+	/**
+	 * Closes the device with default options, see {@link close}.
+	 */
+	// @ts-ignore Deno - couldn't generate typings file
+	public [Symbol.asyncDispose](): Promise<void> {
+		return this.close();
+	}
 }
@@ -0,0 +1,74 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudioSourceType } from "../events/outgoing/CallPrepareEvent.ts";
+
+/**
+ * Enum representing the current state of a call started by the script.
+ *
+ * - QUEUED: Call is waiting in the call queue, see {@link NnPagingRouterDefinition.enableQueue}.
+ * - PREPARING: Call prepare event was sent, waiting for the device to prepare the call.
+ * - STARTING: Call was prepared and call start event was sent.
+ * - PLAYING: Call is playing to all outputs.
+ * - PARTIAL: Call is playing, but was not delivered to all outputs.
+ * - BUSY: Some of the outputs are busy, waiting for the call start retry.
+ */
+export enum ActiveCallState {
+	QUEUED = "QUEUED",
+	PREPARING = "PREPARING",
+	STARTING = "STARTING",
+	PLAYING = "PLAYING",
+	PARTIAL = "PARTIAL",
+	BUSY = "BUSY",
+}
+
+/**
+ * Audio source of a call, without any credentials.
+ *
+ * @property {AudioSourceType} sourceType - Type of the audio source.
+ * @property {string} [path] - Path of the local file. Present for LOCAL_FILE source only.
+ * @property {string} [url] - URL of the remote file. Present for FILE source only.
+ * @property {string} [filename] - Filename used for caching of the remote file. Present for FILE source only.
+ * @property {string} [input] - Name of the live input. Present for LIVE source only.
+ */
+export interface ActiveCallSource {
+	sourceType: AudioSourceType;
+	path?: string;
+	url?: string;
+	filename?: string;
+	input?: string;
+}
+
+/**
+ * Represents a call started by the script, which is not finished yet.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} priority - Priority of the call. The lower the number, the higher the priority.
+ * @property {Array<string>} outputs - Router output names, where the call is played.
+ * @property {ActiveCallSource} source - Audio source of the call.
+ * @property {Date} startedAt - Time when the call was started by the script.
+ * @property {ActiveCallState} state - Current state of the call.
+ * @property {string} [trigger] - What triggered the call, see ```trigger``` of the call parameters.
+ */
+export interface ActiveCallInfo {
+	actionId: string;
+	priority: number;
+	outputs: Array<string>;
+	source: ActiveCallSource;
+	startedAt: Date;
+	state: ActiveCallState;
+	trigger?: string;
+}
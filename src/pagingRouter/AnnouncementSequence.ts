@@ -0,0 +1,230 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CallParam, NnPagingRouterDefinition, PlayLocalFileParam, PlayRemoteFileParam } from "../nnPagingRouter.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { Callback, Consumer, Supplier } from "../utils/FunctionalInterfaces.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { CallHandle, CallResult } from "./CallHandle.ts";
+
+/**
+ * Options of the sequence calls, which can't be set per item.
+ */
+type SequenceCallParam =
+	"priority" | "outputs" | "actionId" | "partial" | "busyRetry" | "trigger" | "suppressIdenticalWithinMs" | "redelivery" | "timeouts";
+
+/**
+ * Single item of an announcement sequence - local or remote file.
+ * Priority and outputs are taken from the sequence.
+ */
+export type SequenceItem = Omit<PlayLocalFileParam, SequenceCallParam> | Omit<PlayRemoteFileParam, SequenceCallParam>;
+
+/**
+ * Defines the parameters required for playing an announcement sequence.
+ * Items are played in order: pre-chime, messages (repeated), post-chime.
+ */
+export type PlaySequenceParam = Pick<CallParam, "partial" | "busyRetry" | "trigger"> & {
+	/**
+	 * Priority of all calls in the sequence. The lower the number, the higher the priority.
+	 */
+	priority: number;
+	/**
+	 * Router output names or zone group names, where the sequence should be played.
+	 */
+	outputs: Array<string>;
+	/**
+	 * Messages played in the given order.
+	 */
+	items: Array<SequenceItem>;
+	/**
+	 * Item played once before the messages.
+	 */
+	preChime?: SequenceItem;
+	/**
+	 * Item played once after the messages.
+	 */
+	postChime?: SequenceItem;
+	/**
+	 * How many times the messages are played. Default is 1.
+	 */
+	repeat?: number;
+	/**
+	 * Gap between two items in milliseconds. Default is 0.
+	 */
+	gapMs?: number;
+};
+
+/**
+ * Result of an announcement sequence.
+ *
+ * @property {boolean} completed - True, if all items were played with DONE state.
+ * @property {boolean} canceled - True, if the sequence was canceled by the script.
+ * @property {Array<CallResult>} results - Results of the played items in order.
+ */
+export interface SequenceResult {
+	completed: boolean;
+	canceled: boolean;
+	results: Array<CallResult>;
+}
+
+/**
+ * Handle of a started announcement sequence.
+ * ```result``` is rejected with the error of the item call, see {@link CallHandle}.
+ */
+export interface SequenceHandle {
+	/**
+	 * Promise settled once the sequence is finished.
+	 */
+	result: Promise<SequenceResult>;
+	/**
+	 * Returns actionId of the call being played, or null (e.g. during gap between items).
+	 */
+	currentActionId: Supplier<string | null>;
+	/**
+	 * Cancel the whole sequence - the call being played is canceled and no other item is played.
+	 */
+	cancel: Callback;
+}
+
+/**
+ * Outputs reserved by the paging router for the calls of a sequence, so queued calls with the same or lower priority
+ * don't get the outputs between the items.
+ */
+export interface OutputReservation {
+	/**
+	 * Adds the call to the reservation - the call is not held back by it.
+	 */
+	admit: Consumer<string>;
+	/**
+	 * Releases the outputs - queued calls are dispatched to them.
+	 */
+	release: Callback;
+}
+
+/**
+ * Plays announcement sequences as a chain of calls on {@link NnPagingRouterDefinition}.
+ * The next item is started once the previous call is finished with DONE state,
+ * any other state ends the whole sequence.
+ * Outputs stay reserved for the sequence until the last item ends or the sequence is canceled.
+ */
+export class AnnouncementSequencePlayer {
+	private pagingRouter: NnPagingRouterDefinition;
+	private reserveOutputs: { (priority: number, outputs: Array<string>): OutputReservation };
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(
+		pagingRouter: NnPagingRouterDefinition,
+		reserveOutputs: { (priority: number, outputs: Array<string>): OutputReservation },
+		loggerConfig: NnLoggerConfig
+	) {
+		this.pagingRouter = pagingRouter;
+		this.reserveOutputs = reserveOutputs;
+		this.loggerConfig = loggerConfig;
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(
+		pagingRouter: NnPagingRouterDefinition,
+		reserveOutputs: { (priority: number, outputs: Array<string>): OutputReservation },
+		loggerConfig: NnLoggerConfig
+	): AnnouncementSequencePlayer {
+		return new AnnouncementSequencePlayer(pagingRouter, reserveOutputs, loggerConfig);
+	}
+
+	/**
+	 * Starts playing the sequence.
+	 * @param spec Sequence specification, see {@link PlaySequenceParam}
+	 * @return {@link SequenceHandle} settled once the sequence is finished
+	 */
+	public play(spec: PlaySequenceParam): SequenceHandle {
+		const items: Array<SequenceItem> = [];
+		spec.preChime && items.push(spec.preChime);
+		for (let i = 0; i < (spec.repeat ?? 1); i++) {
+			items.push(...spec.items);
+		}
+		spec.postChime && items.push(spec.postChime);
+
+		let canceled = false;
+		let currentCall: CallHandle | null = null;
+		let gapTimeout = 0;
+		let gapResolve: Callback | null = null;
+
+		const playItems = async (): Promise<SequenceResult> => {
+			const reservation = this.reserveOutputs(spec.priority, spec.outputs);
+			try {
+				return await playReserved(reservation);
+			} finally {
+				reservation.release();
+			}
+		};
+		const playReserved = async (reservation: OutputReservation): Promise<SequenceResult> => {
+			const results: Array<CallResult> = [];
+			for (let i = 0; i < items.length && !canceled; i++) {
+				if (i > 0 && (spec.gapMs ?? 0) > 0) {
+					await new Promise<void>(resolve => {
+						gapResolve = resolve;
+						gapTimeout = setTimeout(resolve, spec.gapMs);
+					});
+					gapResolve = null;
+					if (canceled) {
+						break;
+					}
+				}
+				currentCall = this.startItem(spec, items[i]);
+				reservation.admit(currentCall.actionId);
+				const result = await currentCall.result;
+				currentCall = null;
+				results.push(result);
+				if (result.state !== CallResultStatus.DONE) {
+					this.loggerConfig.isEnabledInternal() &&
+						logger.warn("Sequence item '{}' finished with state '{}'. Sequence is stopped", result.actionId, result.state);
+					return { completed: false, canceled, results };
+				}
+			}
+			return { completed: !canceled, canceled, results };
+		};
+
+		const result = playItems();
+		// result may be never awaited - avoid unhandled promise rejection
+		result.catch(() => {});
+		return {
+			result,
+			currentActionId: () => currentCall?.actionId ?? null,
+			cancel: () => {
+				canceled = true;
+				clearTimeout(gapTimeout);
+				gapResolve?.();
+				currentCall?.cancel();
+			},
+		};
+	}
+
+	private startItem(spec: PlaySequenceParam, item: SequenceItem): CallHandle {
+		const common = {
+			priority: spec.priority,
+			outputs: spec.outputs,
+			partial: spec.partial,
+			busyRetry: spec.busyRetry,
+			trigger: spec.trigger,
+		};
+		if ("audioFilePath" in item) {
+			return this.pagingRouter.startLocalFileCall({ ...item, ...common });
+		}
+		return this.pagingRouter.startRemoteFileCall({ ...item, ...common });
+	}
+}
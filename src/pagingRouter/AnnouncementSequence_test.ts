@@ -0,0 +1,145 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication, settle } from "../testing/FakeWebSocketCommunication.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+
+function createRouter(webSocket: FakeWebSocketCommunication): NnPagingRouterDefinition {
+	return NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+}
+
+function preparedFiles(webSocket: FakeWebSocketCommunication): Array<string | undefined> {
+	return webSocket.sentOfType("callPrepareEvent").map(event => event.audioSource?.path);
+}
+
+Deno.test("Announcement sequence plays chimes and repeated messages one after another", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const sequence = router.playSequence({
+		priority: 10,
+		outputs: ["Hall"],
+		preChime: { audioFilePath: "pre.mp3" },
+		items: [{ audioFilePath: "message.mp3" }],
+		postChime: { audioFilePath: "post.mp3" },
+		repeat: 2,
+	});
+
+	for (let i = 0; i < 4; i++) {
+		assertEquals(sequence.currentActionId(), webSocket.lastPreparedActionId());
+		webSocket.replyDone(webSocket.lastPreparedActionId());
+		await settle();
+	}
+	const result = await sequence.result;
+	assertEquals(preparedFiles(webSocket), ["pre.mp3", "message.mp3", "message.mp3", "post.mp3"]);
+	assertEquals(result.completed, true);
+	assertEquals(result.results.length, 4);
+	router.close();
+});
+
+Deno.test("Announcement sequence is stopped by an item not finished with DONE state", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const sequence = router.playSequence({
+		priority: 10,
+		outputs: ["Hall"],
+		items: [{ audioFilePath: "a.mp3" }, { audioFilePath: "b.mp3" }],
+	});
+
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	webSocket.replyResult(webSocket.lastPreparedActionId(), CallResultStatus.INTERRUPTED);
+	const result = await sequence.result;
+	assertEquals(result.completed, false);
+	assertEquals(preparedFiles(webSocket), ["a.mp3"]);
+	router.close();
+});
+
+Deno.test("Queued call with the same priority doesn't get outputs between sequence items", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.enableQueue();
+	const sequence = router.playSequence({
+		priority: 10,
+		outputs: ["Hall"],
+		items: [{ audioFilePath: "a.mp3" }, { audioFilePath: "b.mp3" }],
+		gapMs: 20,
+	});
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	const queuedCall = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "queued.mp3" });
+	assertEquals(router.getQueuedCalls().length, 1);
+
+	webSocket.replyResult(webSocket.lastPreparedActionId());
+	await settle();
+	// gap between the items
+	assertEquals(preparedFiles(webSocket), ["a.mp3"]);
+	assertEquals(sequence.currentActionId(), null);
+	await settle(30);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "b.mp3"]);
+
+	webSocket.replyDone(webSocket.lastPreparedActionId());
+	assertEquals((await sequence.result).completed, true);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "b.mp3", "queued.mp3"]);
+	webSocket.replyDone(queuedCall.actionId);
+	assertEquals((await queuedCall.result).state, CallResultStatus.DONE);
+	router.close();
+});
+
+Deno.test("Queued call with higher priority gets outputs between sequence items", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.enableQueue();
+	const sequence = router.playSequence({
+		priority: 10,
+		outputs: ["Hall"],
+		items: [{ audioFilePath: "a.mp3" }, { audioFilePath: "b.mp3" }],
+	});
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	const urgentCall = router.startLocalFileCall({ priority: 5, outputs: ["Hall"], audioFilePath: "urgent.mp3" });
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "urgent.mp3"]);
+
+	webSocket.replyResult(webSocket.preparedActionIds()[0]);
+	webSocket.replyDone(urgentCall.actionId);
+	await settle();
+	webSocket.replyDone(webSocket.lastPreparedActionId());
+	assertEquals((await sequence.result).completed, true);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "urgent.mp3", "b.mp3"]);
+	router.close();
+});
+
+Deno.test("Canceled sequence releases its outputs to queued calls", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.enableQueue();
+	const sequence = router.playSequence({
+		priority: 10,
+		outputs: ["Hall"],
+		items: [{ audioFilePath: "a.mp3" }, { audioFilePath: "b.mp3" }],
+		gapMs: 1000,
+	});
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	router.startLocalFileCall({ priority: 20, outputs: ["Hall"], audioFilePath: "queued.mp3" });
+	webSocket.replyResult(webSocket.lastPreparedActionId());
+	await settle();
+	assertEquals(preparedFiles(webSocket), ["a.mp3"]);
+
+	sequence.cancel();
+	const result = await sequence.result;
+	assertEquals(result.canceled, true);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "queued.mp3"]);
+	router.close();
+});
@@ -0,0 +1,80 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Defines how a call is restarted, when some of its outputs are busy.
+ * Without any policy, the call start is retried every second until the call times out.
+ */
+export type BusyRetryPolicy = {
+	/**
+	 * Maximum number of retries. Default is -1 -> infinite.
+	 */
+	maxAttempts?: number;
+	/**
+	 * Maximum time in milliseconds spent waiting for busy outputs, measured from the first BUSY result.
+	 * Default is -1 -> infinite (limited by the call timeout only).
+	 */
+	maxTotalWaitMs?: number;
+	/**
+	 * Delay in milliseconds before the first retry. Default is 1000.
+	 */
+	initialDelayMs?: number;
+	/**
+	 * Multiplier applied to the delay after each retry. Default is 1 -> constant delay.
+	 */
+	backoffMultiplier?: number;
+	/**
+	 * Upper limit of the delay in milliseconds. Default is 60000.
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Random deviation of the delay as a ratio from 0 to 1, e.g. 0.2 means +-20%. Default is 0.
+	 */
+	jitter?: number;
+	/**
+	 * If true, the call is not retried at all and ends on the first BUSY result. Default is false.
+	 */
+	failFast?: boolean;
+};
+
+/**
+ * Computes the delay before the given retry attempt.
+ *
+ * @param {BusyRetryPolicy} policy - Retry policy of the call.
+ * @param {number} attempt - Number of the retry, numbered from 1.
+ * @param {number} busyWaitMs - Time in milliseconds already spent waiting for busy outputs.
+ * @return {number | null} Delay in milliseconds or null, if the policy is exhausted.
+ */
+export function getBusyRetryDelay(policy: BusyRetryPolicy, attempt: number, busyWaitMs: number): number | null {
+	if (policy.failFast) {
+		return null;
+	}
+	const maxAttempts = policy.maxAttempts ?? -1;
+	if (maxAttempts >= 0 && attempt > maxAttempts) {
+		return null;
+	}
+
+	const baseDelayMs = (policy.initialDelayMs ?? 1000) * Math.pow(policy.backoffMultiplier ?? 1, attempt - 1);
+	const cappedDelayMs = Math.min(baseDelayMs, policy.maxDelayMs ?? 60000);
+	const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+	const delayMs = Math.max(0, Math.round(cappedDelayMs * (1 + jitter * (Math.random() * 2 - 1))));
+
+	const maxTotalWaitMs = policy.maxTotalWaitMs ?? -1;
+	if (maxTotalWaitMs >= 0 && busyWaitMs + delayMs > maxTotalWaitMs) {
+		return null;
+	}
+	return delayMs;
+}
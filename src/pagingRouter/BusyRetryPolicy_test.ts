@@ -0,0 +1,46 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { getBusyRetryDelay } from "./BusyRetryPolicy.ts";
+
+Deno.test("Busy retry delay is retried every second by default", () => {
+	assertEquals(getBusyRetryDelay({}, 1, 0), 1000);
+	assertEquals(getBusyRetryDelay({}, 100, 600000), 1000);
+});
+
+Deno.test("Busy retry delay grows exponentially up to its limit", () => {
+	const policy = { initialDelayMs: 100, backoffMultiplier: 2, maxDelayMs: 500 };
+	assertEquals(
+		[1, 2, 3, 4, 5].map(attempt => getBusyRetryDelay(policy, attempt, 0)),
+		[100, 200, 400, 500, 500]
+	);
+});
+
+Deno.test("Busy retry policy is exhausted by attempts, total wait or fail fast", () => {
+	assertEquals(getBusyRetryDelay({ maxAttempts: 2 }, 2, 0), 1000);
+	assertEquals(getBusyRetryDelay({ maxAttempts: 2 }, 3, 0), null);
+	assertEquals(getBusyRetryDelay({ maxTotalWaitMs: 2500 }, 2, 1500), 1000);
+	assertEquals(getBusyRetryDelay({ maxTotalWaitMs: 2500 }, 3, 2000), null);
+	assertEquals(getBusyRetryDelay({ failFast: true }, 1, 0), null);
+});
+
+Deno.test("Busy retry delay deviates by jitter", () => {
+	for (let i = 0; i < 100; i++) {
+		const delayMs = getBusyRetryDelay({ initialDelayMs: 1000, jitter: 0.2 }, 1, 0) as number;
+		assertEquals(delayMs >= 800 && delayMs <= 1200, true, `${delayMs}`);
+	}
+});
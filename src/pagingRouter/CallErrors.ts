@@ -0,0 +1,201 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DisconnectReason } from "../communication/ConnectionState.ts";
+
+/**
+ * Error raised when the device refused to prepare a call.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {string} failReason - Reason reported by the device in the call prepare result.
+ */
+export class CallPrepareError extends Error {
+	public readonly actionId: string;
+	public readonly failReason: string;
+
+	constructor(actionId: string, failReason: string) {
+		super(`Call '${actionId}' could not be prepared: ${failReason}`);
+		this.name = "CallPrepareError";
+		this.actionId = actionId;
+		this.failReason = failReason;
+	}
+}
+
+/**
+ * Error raised when the call prepare result was not received in time.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} timeoutMs - Time in milliseconds the SDK waited for the call prepare result.
+ */
+export class CallPrepareTimeoutError extends Error {
+	public readonly actionId: string;
+	public readonly timeoutMs: number;
+
+	constructor(actionId: string, timeoutMs: number) {
+		super(`Call prepare result for '${actionId}' wasn't received in ${timeoutMs}ms`);
+		this.name = "CallPrepareTimeoutError";
+		this.actionId = actionId;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Error raised when the call result was not received in time after the call was started.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} timeoutMs - Time in milliseconds the SDK waited for the call result.
+ */
+export class CallTimeoutError extends Error {
+	public readonly actionId: string;
+	public readonly timeoutMs: number;
+
+	constructor(actionId: string, timeoutMs: number) {
+		super(`Call '${actionId}' wasn't finished in ${timeoutMs}ms`);
+		this.name = "CallTimeoutError";
+		this.actionId = actionId;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Error raised when the call gave up waiting for busy outputs, because its {@link BusyRetryPolicy} was exhausted.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} attempts - Number of retries done before giving up.
+ * @property {Map<string, string>} undeliveredOutputs - Outputs reported in the last BUSY result and their reasons.
+ */
+export class CallBusyError extends Error {
+	public readonly actionId: string;
+	public readonly attempts: number;
+	public readonly undeliveredOutputs: Map<string, string>;
+
+	constructor(actionId: string, attempts: number, undeliveredOutputs: Map<string, string>) {
+		super(`Call '${actionId}' gave up while outputs were busy after ${attempts} retries`);
+		this.name = "CallBusyError";
+		this.actionId = actionId;
+		this.attempts = attempts;
+		this.undeliveredOutputs = undeliveredOutputs;
+	}
+}
+
+/**
+ * Error raised when the call was dropped from the full call queue, see {@link QueueDropPolicy}.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ */
+export class CallDroppedError extends Error {
+	public readonly actionId: string;
+
+	constructor(actionId: string) {
+		super(`Call '${actionId}' was dropped from the full call queue`);
+		this.name = "CallDroppedError";
+		this.actionId = actionId;
+	}
+}
+
+/**
+ * Error raised when the call outputs contain names, which are neither zone groups nor known router outputs, see {@link ZoneRegistry}.
+ *
+ * @property {Array<string>} outputs - Unknown output names.
+ */
+export class UnknownOutputError extends Error {
+	public readonly outputs: Array<string>;
+
+	constructor(outputs: Array<string>) {
+		super(`Unknown router outputs: ${outputs.join(", ")}`);
+		this.name = "UnknownOutputError";
+		this.outputs = outputs;
+	}
+}
+
+/**
+ * Error raised when the message template uses fragments, which are not defined for the language, see {@link MessageTemplates}.
+ *
+ * @property {string} language - Language of the rendered template.
+ * @property {Array<string>} fragments - Keys of missing fragments.
+ */
+export class MissingFragmentError extends Error {
+	public readonly language: string;
+	public readonly fragments: Array<string>;
+
+	constructor(language: string, fragments: Array<string>) {
+		super(`Missing audio fragments for language '${language}': ${fragments.join(", ")}`);
+		this.name = "MissingFragmentError";
+		this.language = language;
+		this.fragments = fragments;
+	}
+}
+
+/**
+ * Error raised when a call is refused, because the emergency mode is active, see {@link EmergencyMode}.
+ *
+ * @property {string} actionId - Unique identifier of the refused call.
+ */
+export class EmergencyModeError extends Error {
+	public readonly actionId: string;
+
+	constructor(actionId: string) {
+		super(`Call '${actionId}' was refused, because the emergency mode is active`);
+		this.name = "EmergencyModeError";
+		this.actionId = actionId;
+	}
+}
+
+/**
+ * Error raised when a call is started with an actionId of a call, which is not finished yet,
+ * see {@link DuplicateActionIdPolicy}.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ */
+export class DuplicateCallError extends Error {
+	public readonly actionId: string;
+
+	constructor(actionId: string) {
+		super(`Call '${actionId}' is already in progress`);
+		this.name = "DuplicateCallError";
+		this.actionId = actionId;
+	}
+}
+
+/**
+ * Error raised when the connection to the device was lost before the call was finished, so its result can't be received.
+ * The device may still play the call.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {DisconnectReason} [reason] - Why the connection was lost.
+ */
+export class CallConnectionLostError extends Error {
+	public readonly actionId: string;
+	public readonly reason?: DisconnectReason;
+
+	constructor(actionId: string, reason?: DisconnectReason) {
+		super(`Connection to the device was lost before call '${actionId}' was finished${reason ? ` (${reason})` : ""}`);
+		this.name = "CallConnectionLostError";
+		this.actionId = actionId;
+		this.reason = reason;
+	}
+}
+
+/**
+ * Error raised when the paging router is used after it was closed, see {@link NnPagingRouterDefinition.close}.
+ * Calls not finished at the time of closing are rejected with it as well.
+ */
+export class PagingRouterClosedError extends Error {
+	constructor() {
+		super("Paging router was closed");
+		this.name = "PagingRouterClosedError";
+	}
+}
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CallResultEvent } from "../events/incoming/CallResultEvent.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
+import { CallLifecycleEvent, CallLifecycleSubscription } from "./CallLifecycleEvent.ts";
+import { UndeliveredOutput } from "./UndeliveredOutput.ts";
+
+/**
+ * Final result of a call, as received in the terminal {@link CallResultEvent}.
+ * ```undeliveredOutputs``` is always a {@link Map} (empty, if all outputs were reached).
+ *
+ * @property {Array<UndeliveredOutput>} undelivered - Outputs, where the call was not played, with categorized reasons.
+ *   If the call was re-delivered, it contains outputs missed by all re-deliveries only.
+ * @property {Array<CallResult>} [redeliveries] - Results of re-deliveries to missed outputs, see {@link RedeliveryPolicy}.
+ */
+export interface CallResult extends CallResultEvent {
+	undelivered: Array<UndeliveredOutput>;
+	redeliveries?: Array<CallResult>;
+}
+
+/**
+ * Enum representing how a call with actionId of a call, which is not finished yet, is handled.
+ *
+ * - JOIN: No new call is started, handle of the call in progress is returned.
+ * - REJECT: {@link DuplicateCallError} is thrown.
+ */
+export enum DuplicateActionIdPolicy {
+	JOIN = "JOIN",
+	REJECT = "REJECT",
+}
+
+/**
+ * Handle of a started call.
+ *
+ * ```result``` resolves with the terminal {@link CallResult} (DONE, CANCELED, TIMED_OUT, INTERRUPTED or FAILED).
+ * It is rejected with:
+ * - {@link CallPrepareError} - device refused to prepare the call
+ * - {@link CallPrepareTimeoutError} - call prepare result wasn't received in time
+ * - {@link CallTimeoutError} - call wasn't finished in time
+ * - {@link CallBusyError} - call gave up while outputs were busy, see {@link BusyRetryPolicy}
+ * - {@link CallDroppedError} - call was dropped from the full call queue, see {@link CallQueueOptions}
+ * - {@link CallConnectionLostError} - connection to the device was lost before the call was finished
+ * - {@link PagingRouterClosedError} - paging router was closed, see {@link NnPagingRouterDefinition.close}
+ *
+ * Unknown outputs are refused before the call is started - {@link UnknownOutputError} is thrown, see {@link ZoneRegistry}.
+ * Call with actionId of a call in progress is refused with {@link DuplicateCallError}, if {@link DuplicateActionIdPolicy.REJECT} is set.
+ * While the emergency mode is active, calls are refused - {@link EmergencyModeError} is thrown, see {@link EmergencyMode}.
+ *
+ * @example
+ * const call = device.pagingRouter.startLocalFileCall({ priority: 10, audioFilePath: "gong.mp3", outputs: ["Hall"] });
+ * const result = await call.result;
+ * if (result.undeliveredOutputs.size > 0) {
+ *     // fall back to another zone set
+ * }
+ */
+export interface CallHandle {
+	/**
+	 * Unique identifier of the call. It can be used for future actions (e.g. cancel call).
+	 */
+	actionId: string;
+	/**
+	 * Promise settled once the call is finished.
+	 */
+	result: Promise<CallResult>;
+	/**
+	 * Cancel the call (including its re-delivery).
+	 */
+	cancel: Callback;
+	/**
+	 * Registers a listener for lifecycle stages of this call (prepared, playing, partial, busy retry, finished).
+	 * Listeners are removed automatically once the call is finished.
+	 *
+	 * @param listener the callback function that receives {@link CallLifecycleEvent}
+	 */
+	onLifecycleEvent: { (listener: Consumer<CallLifecycleEvent>): CallLifecycleSubscription };
+}
+
+/**
+ * Handle of a started live call.
+ * Live call plays until it is stopped (or canceled), ```result``` resolves with CANCELED state then.
+ *
+ * @example
+ * const ptt = device.buttons.momentary("ptt1");
+ * let liveCall: LiveCallHandle | null = null;
+ * ptt.onPress(() => (liveCall = device.pagingRouter.startLiveCall({ priority: 5, input: "Paging mic", outputs: ["Hall"] })));
+ * ptt.onRelease(() => liveCall?.stop());
+ */
+export interface LiveCallHandle extends CallHandle {
+	/**
+	 * Stop the live call and close the routing of the input to the outputs.
+	 */
+	stop: Callback;
+}
+
+/**
+ * Converts undelivered outputs received from the device (plain JSON object) to a {@link Map}.
+ *
+ * @param undeliveredOutputs - Undelivered outputs as received in the event, can be null.
+ * @return {Map<string, string>} Map of output name to undelivered reason.
+ */
+export function toUndeliveredOutputsMap(undeliveredOutputs: unknown): Map<string, string> {
+	if (undeliveredOutputs == null) {
+		return new Map();
+	}
+	if (undeliveredOutputs instanceof Map) {
+		return new Map(undeliveredOutputs);
+	}
+	return new Map(Object.entries(undeliveredOutputs as { [output: string]: string }));
+}
@@ -0,0 +1,315 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { ActiveCallSource } from "./ActiveCallInfo.ts";
+import { CallLifecycleEvent, CallLifecycleStage } from "./CallLifecycleEvent.ts";
+import { CallPrepareTimeoutError, CallTimeoutError } from "./CallErrors.ts";
+
+/**
+ * Record of a finished call started by the script.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} priority - Priority of the call.
+ * @property {ActiveCallSource} source - Audio source of the call.
+ * @property {string} [trigger] - What triggered the call, e.g. "schedule:morning-bell".
+ * @property {Array<string>} requestedOutputs - Router outputs the call was started for.
+ * @property {Array<string>} deliveredOutputs - Router outputs the call was played in.
+ * @property {Map<string, string>} undeliveredOutputs - Output names and reasons why the call was not played in them.
+ * @property {CallResultStatus} state - Terminal state of the call. Calls timed out on the SDK side are TIMED_OUT, other SDK errors (e.g. prepare error) are FAILED.
+ * @property {string} [failReason] - Fail reason reported by the device or error message.
+ * @property {Date} startedAt - Time when the call was started by the script.
+ * @property {Date} [playingAt] - Time when the call started playing. Missing, if the call was never played.
+ * @property {Date} finishedAt - Time when the call was finished.
+ * @property {number} playDurationMs - Time in milliseconds the call was playing.
+ * @property {number} totalDurationMs - Time in milliseconds from start by the script to finish.
+ */
+export interface CallHistoryRecord {
+	actionId: string;
+	priority: number;
+	source: ActiveCallSource;
+	trigger?: string;
+	requestedOutputs: Array<string>;
+	deliveredOutputs: Array<string>;
+	undeliveredOutputs: Map<string /*output*/, string /*undeliveredReason*/>;
+	state: CallResultStatus;
+	failReason?: string;
+	startedAt: Date;
+	playingAt?: Date;
+	finishedAt: Date;
+	playDurationMs: number;
+	totalDurationMs: number;
+}
+
+/**
+ * Filter of call history records. All set conditions have to match.
+ */
+export type CallHistoryQuery = {
+	/**
+	 * Calls started at or after this time.
+	 */
+	from?: Date;
+	/**
+	 * Calls started before this time.
+	 */
+	to?: Date;
+	/**
+	 * Calls requested for this router output.
+	 */
+	output?: string;
+	/**
+	 * Calls finished with this state.
+	 */
+	state?: CallResultStatus;
+	/**
+	 * Maximum number of returned records - the latest ones are returned.
+	 */
+	limit?: number;
+};
+
+/**
+ * Storage of call history records.
+ */
+export interface CallHistoryStore {
+	/**
+	 * Stores the record of a finished call.
+	 */
+	append: (record: CallHistoryRecord) => void;
+	/**
+	 * Returns records matching the query ordered by start time.
+	 */
+	query: (query: CallHistoryQuery) => Array<CallHistoryRecord>;
+}
+
+/**
+ * Returns true, if the record matches all conditions of the query.
+ *
+ * @param {CallHistoryRecord} record - Call history record.
+ * @param {CallHistoryQuery} query - Filter of records.
+ */
+export function matchesCallHistoryQuery(record: CallHistoryRecord, query: CallHistoryQuery): boolean {
+	return (
+		(query.from == null || record.startedAt.getTime() >= query.from.getTime()) &&
+		(query.to == null || record.startedAt.getTime() < query.to.getTime()) &&
+		(query.output == null || record.requestedOutputs.includes(query.output)) &&
+		(query.state == null || record.state === query.state)
+	);
+}
+
+/**
+ * Applies the query to records ordered by start time.
+ */
+function applyQuery(records: Array<CallHistoryRecord>, query: CallHistoryQuery): Array<CallHistoryRecord> {
+	const matching = records.filter(record => matchesCallHistoryQuery(record, query));
+	return query.limit != null && query.limit >= 0 ? matching.slice(Math.max(0, matching.length - query.limit)) : matching;
+}
+
+/**
+ * Store keeping records in memory only. The oldest records are removed, once the limit is reached.
+ */
+export class MemoryCallHistoryStore implements CallHistoryStore {
+	private records: Array<CallHistoryRecord> = [];
+	private maxRecords: number;
+
+	/**
+	 * Creates store with given capacity.
+	 *
+	 * @param {number} [maxRecords] - Maximum number of kept records. Default is 1000.
+	 */
+	constructor(maxRecords: number = 1000) {
+		this.maxRecords = maxRecords;
+	}
+
+	public append(record: CallHistoryRecord) {
+		this.records.push(record);
+		this.records.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+		if (this.records.length > this.maxRecords) {
+			this.records.splice(0, this.records.length - this.maxRecords);
+		}
+	}
+
+	public query(query: CallHistoryQuery): Array<CallHistoryRecord> {
+		return applyQuery(this.records, query);
+	}
+}
+
+/**
+ * Store appending records to a JSON lines file (one JSON record per line), so they survive script restart.
+ */
+export class FileCallHistoryStore implements CallHistoryStore {
+	private filename: string;
+
+	/**
+	 * Creates store backed by given file. The file is created on the first write.
+	 *
+	 * @param {string} filename - Path of the JSON lines file.
+	 */
+	constructor(filename: string) {
+		this.filename = filename;
+	}
+
+	public append(record: CallHistoryRecord) {
+		const line = JSON.stringify({
+			...record,
+			undeliveredOutputs: Object.fromEntries(record.undeliveredOutputs),
+		});
+		// @ts-ignore Deno - couldn't generate typings file
+		Deno.writeTextFileSync(this.filename, line + "\n", { append: true });
+	}
+
+	public query(query: CallHistoryQuery): Array<CallHistoryRecord> {
+		let content: string;
+		try {
+			// @ts-ignore Deno - couldn't generate typings file
+			content = Deno.readTextFileSync(this.filename);
+		} catch (e) {
+			// file doesn't exist yet
+			return [];
+		}
+		const records = content
+			.split("\n")
+			.filter(line => line.trim().length > 0)
+			.flatMap(line => {
+				try {
+					return [this.parse(line)];
+				} catch (e) {
+					logger.warn("Corrupted call history record in '{}' is skipped", this.filename);
+					return [];
+				}
+			});
+		records.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+		return applyQuery(records, query);
+	}
+
+	private parse(line: string): CallHistoryRecord {
+		const record = JSON.parse(line);
+		return {
+			...record,
+			undeliveredOutputs: new Map(Object.entries(record.undeliveredOutputs ?? {})),
+			startedAt: new Date(record.startedAt),
+			playingAt: record.playingAt ? new Date(record.playingAt) : undefined,
+			finishedAt: new Date(record.finishedAt),
+		};
+	}
+}
+
+/**
+ * Progress of a call, which is not finished yet.
+ */
+type CallProgress = {
+	playingAt?: number;
+	undeliveredOutputs: Map<string, string>;
+};
+
+/**
+ * Records history of calls started by the script, fed by lifecycle events of the calls
+ * (call prepare result, call progress and call result received from the device).
+ *
+ * @example
+ * device.pagingRouter.history.setStore(new FileCallHistoryStore("call-history.jsonl"));
+ * const failed = device.pagingRouter.history.query({ from: new Date(Date.now() - 86400000), state: CallResultStatus.FAILED });
+ */
+export class CallHistory {
+	private store: CallHistoryStore = new MemoryCallHistoryStore();
+	private progress: Map<string, CallProgress> = new Map();
+	private pagingRouter: NnPagingRouterDefinition;
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig) {
+		this.pagingRouter = pagingRouter;
+		this.loggerConfig = loggerConfig;
+		this.pagingRouter.onCallLifecycleEvent(event => this.onCallLifecycleEvent(event));
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig): CallHistory {
+		return new CallHistory(pagingRouter, loggerConfig);
+	}
+
+	/**
+	 * Sets the store of records. Default is {@link MemoryCallHistoryStore}.
+	 *
+	 * @param store - call history store
+	 */
+	public setStore(store: CallHistoryStore) {
+		this.store = store;
+	}
+
+	/**
+	 * Returns records of finished calls matching the query ordered by start time.
+	 *
+	 * @param query - filter of records, see {@link CallHistoryQuery}
+	 */
+	public query(query: CallHistoryQuery = {}): Array<CallHistoryRecord> {
+		return this.store.query(query);
+	}
+
+	private onCallLifecycleEvent(event: CallLifecycleEvent) {
+		const progress: CallProgress = this.progress.get(event.actionId) ?? { undeliveredOutputs: new Map() };
+		this.progress.set(event.actionId, progress);
+		switch (event.stage) {
+			case CallLifecycleStage.PLAYING:
+			case CallLifecycleStage.PARTIAL:
+				progress.playingAt = progress.playingAt ?? event.timestamp.getTime();
+				progress.undeliveredOutputs = event.undeliveredOutputs;
+				break;
+			case CallLifecycleStage.FINISHED:
+			case CallLifecycleStage.FAILED:
+				this.progress.delete(event.actionId);
+				this.record(event, progress);
+				break;
+		}
+	}
+
+	private isTimeout(error?: Error): boolean {
+		return error instanceof CallPrepareTimeoutError || error instanceof CallTimeoutError;
+	}
+
+	private record(event: CallLifecycleEvent, progress: CallProgress) {
+		const activeCall = this.pagingRouter.getActiveCall(event.actionId);
+		if (!activeCall) {
+			return;
+		}
+		const undeliveredOutputs = event.undeliveredOutputs.size > 0 ? event.undeliveredOutputs : progress.undeliveredOutputs;
+		const finishedAt = event.timestamp.getTime();
+		const record: CallHistoryRecord = {
+			actionId: event.actionId,
+			priority: activeCall.priority,
+			source: activeCall.source,
+			trigger: activeCall.trigger,
+			requestedOutputs: activeCall.outputs,
+			deliveredOutputs: progress.playingAt != null ? activeCall.outputs.filter(output => !undeliveredOutputs.has(output)) : [],
+			undeliveredOutputs: new Map(undeliveredOutputs),
+			state: event.state ?? (this.isTimeout(event.error) ? CallResultStatus.TIMED_OUT : CallResultStatus.FAILED),
+			failReason: event.failReason || event.error?.message,
+			startedAt: activeCall.startedAt,
+			playingAt: progress.playingAt != null ? new Date(progress.playingAt) : undefined,
+			finishedAt: event.timestamp,
+			playDurationMs: progress.playingAt != null ? finishedAt - progress.playingAt : 0,
+			totalDurationMs: finishedAt - activeCall.startedAt.getTime(),
+		};
+		try {
+			this.store.append(record);
+		} catch (e) {
+			logger.error("Call history record of '{}' couldn't be stored. Error: {}", event.actionId, String(e));
+		}
+		this.loggerConfig.isEnabledInternal() && logger.debug("Call '{}' recorded to history", event.actionId);
+	}
+}
@@ -0,0 +1,84 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { CallHistoryRecord, MemoryCallHistoryStore } from "./CallHistory.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication } from "../testing/FakeWebSocketCommunication.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { CallProgressStatus } from "../events/incoming/CallProgressEvent.ts";
+import { AudioSourceType } from "../events/outgoing/CallPrepareEvent.ts";
+
+function createRecord(actionId: string, startedAt: number, outputs: Array<string>, state: CallResultStatus): CallHistoryRecord {
+	return {
+		actionId,
+		priority: 10,
+		source: { sourceType: AudioSourceType.LOCAL_FILE, path: "gong.mp3" },
+		requestedOutputs: outputs,
+		deliveredOutputs: outputs,
+		undeliveredOutputs: new Map(),
+		state,
+		startedAt: new Date(startedAt),
+		finishedAt: new Date(startedAt + 1000),
+		playDurationMs: 1000,
+		totalDurationMs: 1000,
+	};
+}
+
+Deno.test("Memory call history store filters records and keeps the latest ones", () => {
+	const store = new MemoryCallHistoryStore(3);
+	store.append(createRecord("1", 1000, ["Hall"], CallResultStatus.DONE));
+	store.append(createRecord("2", 2000, ["Hall", "Yard"], CallResultStatus.FAILED));
+	store.append(createRecord("3", 3000, ["Yard"], CallResultStatus.DONE));
+	store.append(createRecord("4", 4000, ["Hall"], CallResultStatus.DONE));
+
+	const actionIds = (records: Array<CallHistoryRecord>) => records.map(record => record.actionId);
+	assertEquals(actionIds(store.query({})), ["2", "3", "4"]);
+	assertEquals(actionIds(store.query({ output: "Hall" })), ["2", "4"]);
+	assertEquals(actionIds(store.query({ state: CallResultStatus.DONE })), ["3", "4"]);
+	assertEquals(actionIds(store.query({ from: new Date(2000), to: new Date(4000) })), ["2", "3"]);
+	assertEquals(actionIds(store.query({ limit: 1 })), ["4"]);
+});
+
+Deno.test("Call history records finished and failed calls of the router", () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+
+	const played = router.startLocalFileCall({ priority: 10, outputs: ["Hall", "Yard"], audioFilePath: "gong.mp3", trigger: "test" });
+	webSocket.replyPrepared(played.actionId);
+	webSocket.replyProgress(played.actionId, CallProgressStatus.PLAYING, { Yard: "BUSY" });
+	webSocket.replyResult(played.actionId);
+	const failed = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "missing.mp3" });
+	webSocket.replyPrepared(failed.actionId, "File not found");
+	played.result.catch(() => {});
+	failed.result.catch(() => {});
+
+	const [playedRecord, failedRecord] = router.history.query();
+	assertEquals(playedRecord.actionId, played.actionId);
+	assertEquals(playedRecord.trigger, "test");
+	assertEquals(playedRecord.state, CallResultStatus.DONE);
+	assertEquals(playedRecord.requestedOutputs, ["Hall", "Yard"]);
+	assertEquals(playedRecord.deliveredOutputs, ["Hall"]);
+	assertEquals(playedRecord.undeliveredOutputs, new Map([["Yard", "BUSY"]]));
+	assertEquals(playedRecord.playingAt !== undefined, true);
+	assertEquals(failedRecord.actionId, failed.actionId);
+	assertEquals(failedRecord.state, CallResultStatus.FAILED);
+	assertEquals(failedRecord.failReason, `Call '${failed.actionId}' could not be prepared: File not found`);
+	assertEquals(failedRecord.deliveredOutputs, []);
+	assertEquals(router.history.query({ state: CallResultStatus.FAILED }).length, 1);
+	router.close();
+});
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { Callback } from "../utils/FunctionalInterfaces.ts";
+import { UndeliveredOutput } from "./UndeliveredOutput.ts";
+
+/**
+ * Enum representing the stages of a call started by the script.
+ *
+ * - PREPARED: Call was prepared by the device and is being started.
+ * - PLAYING: Call is playing to all outputs.
+ * - PARTIAL: Call is playing, but was not delivered to all outputs.
+ * - BUSY_RETRY: Some of the outputs were busy, call start will be retried.
+ * - FINISHED: Device reported the terminal state of the call, see ```state```.
+ * - FAILED: Call could not be prepared, gave up while outputs were busy or wasn't finished in time, see ```error```.
+ */
+export enum CallLifecycleStage {
+	PREPARED = "PREPARED",
+	PLAYING = "PLAYING",
+	PARTIAL = "PARTIAL",
+	BUSY_RETRY = "BUSY_RETRY",
+	FINISHED = "FINISHED",
+	FAILED = "FAILED",
+}
+
+/**
+ * Represents a single stage of a call lifecycle.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {CallLifecycleStage} stage - Stage the call has reached.
+ * @property {Date} timestamp - Time when the stage was reached.
+ * @property {Map<string, string>} undeliveredOutputs - Output names and reasons why the call was not played in them.
+ * @property {Array<UndeliveredOutput>} undelivered - Outputs, where the call was not played, with categorized reasons.
+ * @property {number} [busyRetryAttempt] - Number of the BUSY retry, numbered from 1. Present for BUSY_RETRY stage only.
+ * @property {CallResultStatus} [state] - Terminal state of the call. Present for FINISHED stage only.
+ * @property {string} [failReason] - Fail reason reported by the device, if any.
+ * @property {Error} [error] - Error the call failed with. Present for FAILED stage only.
+ */
+export interface CallLifecycleEvent {
+	actionId: string;
+	stage: CallLifecycleStage;
+	timestamp: Date;
+	undeliveredOutputs: Map<string /*output*/, string /*undeliveredReason*/>;
+	undelivered: Array<UndeliveredOutput>;
+	busyRetryAttempt?: number;
+	state?: CallResultStatus;
+	failReason?: string;
+	error?: Error;
+}
+
+/**
+ * Registration of a call lifecycle listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface CallLifecycleSubscription {
+	removeListener: Callback;
+}
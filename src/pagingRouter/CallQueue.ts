@@ -0,0 +1,328 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CallPrepareEvent, getCallIdentityKey } from "../events/outgoing/CallPrepareEvent.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { ActiveCallSource } from "./ActiveCallInfo.ts";
+
+/**
+ * Enum representing what happens, when a call is added to the full queue.
+ *
+ * - REJECT_NEW: The new call is dropped.
+ * - DROP_OLDEST: The call waiting the longest time is dropped.
+ * - DROP_LOWEST_PRIORITY: The call with the lowest priority (the highest number) is dropped, the oldest one if there are more.
+ */
+export enum QueueDropPolicy {
+	REJECT_NEW = "REJECT_NEW",
+	DROP_OLDEST = "DROP_OLDEST",
+	DROP_LOWEST_PRIORITY = "DROP_LOWEST_PRIORITY",
+}
+
+/**
+ * Defines the behavior of the call queue.
+ */
+export type CallQueueOptions = {
+	/**
+	 * Maximum number of waiting calls. Default is -1 -> unlimited.
+	 */
+	maxDepth?: number;
+	/**
+	 * What happens, when a call is added to the full queue. Default is {@link QueueDropPolicy.REJECT_NEW}.
+	 */
+	dropPolicy?: QueueDropPolicy;
+	/**
+	 * If true, a call with the same source and outputs as an already waiting call is merged with it.
+	 * The waiting call gets the higher priority of both. Default is true.
+	 */
+	coalesce?: boolean;
+};
+
+/**
+ * Enum representing changes of the call queue.
+ *
+ * - ENQUEUED: Call was added to the queue.
+ * - COALESCED: Call was merged with an already waiting call.
+ * - DISPATCHED: Call left the queue and was sent to the device.
+ * - DROPPED: Call was dropped, because the queue was full.
+ * - REMOVED: Call was removed from the queue (e.g. canceled).
+ */
+export enum CallQueueEventType {
+	ENQUEUED = "ENQUEUED",
+	COALESCED = "COALESCED",
+	DISPATCHED = "DISPATCHED",
+	DROPPED = "DROPPED",
+	REMOVED = "REMOVED",
+}
+
+/**
+ * Represents a call waiting in the queue.
+ *
+ * @property {string} actionId - Unique identifier of the call.
+ * @property {number} priority - Priority of the call. The lower the number, the higher the priority.
+ * @property {Array<string>} outputs - Router output names, where the call should be played.
+ * @property {ActiveCallSource} source - Audio source of the call.
+ * @property {Date} enqueuedAt - Time when the call was added to the queue.
+ */
+export interface QueuedCallInfo {
+	actionId: string;
+	priority: number;
+	outputs: Array<string>;
+	source: ActiveCallSource;
+	enqueuedAt: Date;
+}
+
+/**
+ * Represents a change of the call queue.
+ *
+ * @property {CallQueueEventType} type - Type of the change.
+ * @property {QueuedCallInfo} call - Call the change relates to.
+ * @property {number} pending - Number of waiting calls after the change.
+ */
+export interface CallQueueEvent {
+	type: CallQueueEventType;
+	call: QueuedCallInfo;
+	pending: number;
+}
+
+/**
+ * Registration of a call queue listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface CallQueueSubscription {
+	removeListener: Callback;
+}
+
+/**
+ * Call waiting in the queue.
+ */
+type QueueEntry = {
+	callPrepareEvent: CallPrepareEvent;
+	enqueuedAt: number;
+	sequence: number;
+};
+
+/**
+ * Client-side queue of calls waiting for their outputs, ordered by priority and time of adding.
+ */
+export class CallQueue {
+	private options: CallQueueOptions | null = null;
+	private entries: Array<QueueEntry> = [];
+	private listeners: Array<Consumer<CallQueueEvent>> = [];
+	private lastSequence: number = 0;
+	private loggerConfig: NnLoggerConfig;
+
+	/**
+	 * Creates empty, disabled queue.
+	 *
+	 * @param {NnLoggerConfig} loggerConfig - The configuration object for logger settings.
+	 */
+	constructor(loggerConfig: NnLoggerConfig) {
+		this.loggerConfig = loggerConfig;
+	}
+
+	/**
+	 * Returns true, if the queue is enabled.
+	 */
+	public isEnabled(): boolean {
+		return this.options != null;
+	}
+
+	/**
+	 * Enables the queue with given options. Options of already enabled queue are replaced.
+	 */
+	public enable(options: CallQueueOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Disables the queue. Waiting calls have to be taken out by {@link takeNext}.
+	 */
+	public disable() {
+		this.options = null;
+	}
+
+	/**
+	 * Returns waiting calls in the order they will be dispatched.
+	 */
+	public getPending(): Array<QueuedCallInfo> {
+		return this.entries.map(entry => this.toInfo(entry));
+	}
+
+	/**
+	 * Returns true, if the call is waiting in the queue.
+	 */
+	public has(actionId: string): boolean {
+		return this.entries.some(entry => entry.callPrepareEvent.actionId === actionId);
+	}
+
+	/**
+	 * Registers a listener for queue changes.
+	 */
+	public onChange(listener: Consumer<CallQueueEvent>): CallQueueSubscription {
+		this.listeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.listeners.indexOf(listener);
+				if (index >= 0) {
+					this.listeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Finds a waiting call with the same source and outputs and merges given call into it.
+	 *
+	 * @return actionId of the waiting call or undefined, if there is none or coalescing is disabled
+	 */
+	public coalesce(callPrepareEvent: CallPrepareEvent): string | undefined {
+		if (!(this.options?.coalesce ?? true)) {
+			return undefined;
+		}
+		const key = getCallIdentityKey(callPrepareEvent);
+		const entry = this.entries.find(entry => getCallIdentityKey(entry.callPrepareEvent) === key);
+		if (!entry) {
+			return undefined;
+		}
+		entry.callPrepareEvent.priority = Math.min(entry.callPrepareEvent.priority, callPrepareEvent.priority);
+		this.sort();
+		this.emit(CallQueueEventType.COALESCED, entry);
+		return entry.callPrepareEvent.actionId;
+	}
+
+	/**
+	 * Adds the call to the queue.
+	 *
+	 * @return actionIds of calls dropped because the queue is full (it can contain the added call)
+	 */
+	public add(callPrepareEvent: CallPrepareEvent): Array<string> {
+		const entry: QueueEntry = { callPrepareEvent, enqueuedAt: Date.now(), sequence: ++this.lastSequence };
+		this.entries.push(entry);
+		this.sort();
+		this.emit(CallQueueEventType.ENQUEUED, entry);
+
+		const dropped: Array<string> = [];
+		const maxDepth = this.options?.maxDepth ?? -1;
+		while (maxDepth >= 0 && this.entries.length > maxDepth) {
+			const droppedEntry = this.selectDropped(entry);
+			this.entries.splice(this.entries.indexOf(droppedEntry), 1);
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Call queue is full. Call '{}' is dropped", droppedEntry.callPrepareEvent.actionId);
+			this.emit(CallQueueEventType.DROPPED, droppedEntry);
+			dropped.push(droppedEntry.callPrepareEvent.actionId);
+		}
+		return dropped;
+	}
+
+	/**
+	 * Takes out the first waiting call (in priority order), which can be dispatched.
+	 * Outputs of skipped calls stay reserved for them, so a call can't overtake a waiting call with higher priority on the same output.
+	 * Held calls are skipped without reserving their outputs, e.g. calls waiting for the end of an announcement sequence
+	 * don't block the next item of the sequence.
+	 *
+	 * @param canDispatch - decides, if the call can be dispatched now
+	 * @param isHeld - decides, if the call is held back regardless of its position in the queue
+	 * @return call prepare event of the call or null, if no call can be dispatched
+	 */
+	public takeNext(
+		canDispatch: { (callPrepareEvent: CallPrepareEvent): boolean },
+		isHeld: { (callPrepareEvent: CallPrepareEvent): boolean } = () => false
+	): CallPrepareEvent | null {
+		const reservedOutputs: Set<string> = new Set();
+		const entry = this.entries.find(entry => {
+			if (isHeld(entry.callPrepareEvent)) {
+				return false;
+			}
+			const outputs = entry.callPrepareEvent.outputs;
+			if (!outputs.some(output => reservedOutputs.has(output)) && canDispatch(entry.callPrepareEvent)) {
+				return true;
+			}
+			outputs.forEach(output => reservedOutputs.add(output));
+			return false;
+		});
+		if (!entry) {
+			return null;
+		}
+		this.entries.splice(this.entries.indexOf(entry), 1);
+		this.emit(CallQueueEventType.DISPATCHED, entry);
+		return entry.callPrepareEvent;
+	}
+
+	/**
+	 * Removes the call from the queue.
+	 *
+	 * @return true, if the call was waiting in the queue
+	 */
+	public remove(actionId: string): boolean {
+		const entry = this.entries.find(entry => entry.callPrepareEvent.actionId === actionId);
+		if (!entry) {
+			return false;
+		}
+		this.entries.splice(this.entries.indexOf(entry), 1);
+		this.emit(CallQueueEventType.REMOVED, entry);
+		return true;
+	}
+
+	private selectDropped(newEntry: QueueEntry): QueueEntry {
+		switch (this.options?.dropPolicy ?? QueueDropPolicy.REJECT_NEW) {
+			case QueueDropPolicy.DROP_OLDEST:
+				return this.entries.reduce((oldest, entry) => (entry.sequence < oldest.sequence ? entry : oldest));
+			case QueueDropPolicy.DROP_LOWEST_PRIORITY: {
+				// entries are sorted by priority and sequence - find the oldest one with the lowest priority
+				const lowestPriority = this.entries[this.entries.length - 1].callPrepareEvent.priority;
+				return this.entries.find(entry => entry.callPrepareEvent.priority === lowestPriority) as QueueEntry;
+			}
+			case QueueDropPolicy.REJECT_NEW:
+			default:
+				return newEntry;
+		}
+	}
+
+	private sort() {
+		this.entries.sort((a, b) => a.callPrepareEvent.priority - b.callPrepareEvent.priority || a.sequence - b.sequence);
+	}
+
+	private toInfo(entry: QueueEntry): QueuedCallInfo {
+		const callPrepareEvent = entry.callPrepareEvent;
+		const audioSource = callPrepareEvent.audioSource;
+		return {
+			actionId: callPrepareEvent.actionId,
+			priority: callPrepareEvent.priority,
+			outputs: [...callPrepareEvent.outputs],
+			source: {
+				sourceType: audioSource.sourceType,
+				path: audioSource.path,
+				url: audioSource.url,
+				filename: audioSource.filename,
+				input: audioSource.input,
+			},
+			enqueuedAt: new Date(entry.enqueuedAt),
+		};
+	}
+
+	private emit(type: CallQueueEventType, entry: QueueEntry) {
+		const event: CallQueueEvent = { type, call: this.toInfo(entry), pending: this.entries.length };
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (e) {
+				logger.error("Call queue listener failed for event '{}'. Error: {}", type, String(e));
+			}
+		});
+	}
+}
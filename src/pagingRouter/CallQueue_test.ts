@@ -0,0 +1,135 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { CallQueue, CallQueueEventType, QueueDropPolicy } from "./CallQueue.ts";
+import { CallPrepareEvent, createCallPrepareEventLocalFile } from "../events/outgoing/CallPrepareEvent.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+
+function call(actionId: string, priority: number, outputs: Array<string> = ["Hall"], audioFilePath: string = actionId): CallPrepareEvent {
+	return createCallPrepareEventLocalFile({ actionId, priority, outputs, audioFilePath });
+}
+
+function takeAll(queue: CallQueue): Array<string> {
+	const actionIds: Array<string> = [];
+	for (let next = queue.takeNext(() => true); next; next = queue.takeNext(() => true)) {
+		actionIds.push(next.actionId);
+	}
+	return actionIds;
+}
+
+Deno.test("CallQueue orders calls by priority and time of adding", () => {
+	const queue = new CallQueue(NnLoggerConfig.getInstance());
+	queue.enable({});
+	queue.add(call("low", 20));
+	queue.add(call("high", 5));
+	queue.add(call("low2", 20));
+	queue.add(call("high2", 5));
+
+	assertEquals(takeAll(queue), ["nnScriptApi__high", "nnScriptApi__high2", "nnScriptApi__low", "nnScriptApi__low2"]);
+});
+
+Deno.test("CallQueue doesn't let a call overtake waiting call with higher priority on the same output", () => {
+	const queue = new CallQueue(NnLoggerConfig.getInstance());
+	queue.enable({});
+	queue.add(call("hall", 5, ["Hall"]));
+	queue.add(call("hallAndShop", 10, ["Hall", "Shop"]));
+	queue.add(call("office", 10, ["Office"]));
+
+	// "hall" can't be dispatched yet, its output stays reserved
+	const next = queue.takeNext(event => event.actionId !== "nnScriptApi__hall");
+	assertEquals(next?.actionId, "nnScriptApi__office");
+	assertEquals(
+		queue.getPending().map(info => info.actionId),
+		["nnScriptApi__hall", "nnScriptApi__hallAndShop"]
+	);
+});
+
+Deno.test("CallQueue skips held calls without reserving their outputs", () => {
+	const queue = new CallQueue(NnLoggerConfig.getInstance());
+	queue.enable({});
+	queue.add(call("waiting", 10, ["Hall"]));
+	queue.add(call("sequenceItem", 10, ["Hall"]));
+
+	const next = queue.takeNext(
+		() => true,
+		event => event.actionId === "nnScriptApi__waiting"
+	);
+	assertEquals(next?.actionId, "nnScriptApi__sequenceItem");
+	assertEquals(
+		queue.getPending().map(info => info.actionId),
+		["nnScriptApi__waiting"]
+	);
+});
+
+Deno.test("CallQueue evicts calls by drop policy, when it is full", () => {
+	const rejecting = new CallQueue(NnLoggerConfig.getInstance());
+	rejecting.enable({ maxDepth: 2 });
+	rejecting.add(call("a", 10));
+	rejecting.add(call("b", 20));
+	assertEquals(rejecting.add(call("c", 5)), ["nnScriptApi__c"]);
+
+	const droppingOldest = new CallQueue(NnLoggerConfig.getInstance());
+	droppingOldest.enable({ maxDepth: 2, dropPolicy: QueueDropPolicy.DROP_OLDEST });
+	droppingOldest.add(call("a", 10));
+	droppingOldest.add(call("b", 20));
+	assertEquals(droppingOldest.add(call("c", 5)), ["nnScriptApi__a"]);
+	assertEquals(takeAll(droppingOldest), ["nnScriptApi__c", "nnScriptApi__b"]);
+
+	const droppingLowest = new CallQueue(NnLoggerConfig.getInstance());
+	droppingLowest.enable({ maxDepth: 2, dropPolicy: QueueDropPolicy.DROP_LOWEST_PRIORITY });
+	droppingLowest.add(call("a", 20));
+	droppingLowest.add(call("b", 20));
+	assertEquals(droppingLowest.add(call("c", 5)), ["nnScriptApi__a"]);
+	assertEquals(takeAll(droppingLowest), ["nnScriptApi__c", "nnScriptApi__b"]);
+});
+
+Deno.test("CallQueue coalesces calls with the same source and outputs", () => {
+	const queue = new CallQueue(NnLoggerConfig.getInstance());
+	queue.enable({});
+	queue.add(call("first", 20, ["Hall"], "chime.mp3"));
+	queue.add(call("other", 10, ["Hall"], "other.mp3"));
+
+	assertEquals(queue.coalesce(call("second", 5, ["Hall"], "chime.mp3")), "nnScriptApi__first");
+	assertEquals(queue.coalesce(call("third", 5, ["Shop"], "chime.mp3")), undefined);
+	// coalesced call got the higher priority
+	assertEquals(takeAll(queue), ["nnScriptApi__first", "nnScriptApi__other"]);
+
+	queue.enable({ coalesce: false });
+	queue.add(call("first", 20, ["Hall"], "chime.mp3"));
+	assertEquals(queue.coalesce(call("second", 5, ["Hall"], "chime.mp3")), undefined);
+});
+
+Deno.test("CallQueue notifies listeners about changes", () => {
+	const queue = new CallQueue(NnLoggerConfig.getInstance());
+	queue.enable({ maxDepth: 1 });
+	const events: Array<string> = [];
+	const subscription = queue.onChange(event => events.push(`${event.type}:${event.call.actionId}:${event.pending}`));
+
+	queue.add(call("a", 10));
+	queue.add(call("b", 10));
+	assertEquals(queue.remove("nnScriptApi__a"), true);
+	assertEquals(queue.remove("nnScriptApi__a"), false);
+	subscription.removeListener();
+	queue.add(call("c", 10));
+
+	assertEquals(events, [
+		`${CallQueueEventType.ENQUEUED}:nnScriptApi__a:1`,
+		`${CallQueueEventType.ENQUEUED}:nnScriptApi__b:2`,
+		`${CallQueueEventType.DROPPED}:nnScriptApi__b:1`,
+		`${CallQueueEventType.REMOVED}:nnScriptApi__a:0`,
+	]);
+});
@@ -0,0 +1,151 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RemoteFileAudioSource } from "../nnPagingRouter.ts";
+import { blake2b } from "../dependencies/hashes/blake2.ts";
+import { blake3 } from "../dependencies/hashes/blake3.ts";
+import { sha3_256, sha3_512 } from "../dependencies/hashes/sha3.ts";
+
+/**
+ * Enum representing checksum functions supported by the device for validation of remote files.
+ *
+ * - BLAKE2B: BLAKE2b with 512-bit digest.
+ * - BLAKE3: BLAKE3 with 256-bit digest.
+ * - SHA2_256: SHA-256.
+ * - SHA2_512: SHA-512.
+ * - SHA3_256: SHA3-256.
+ * - SHA3_512: SHA3-512.
+ */
+export enum ChecksumMethod {
+	BLAKE2B = "blake2b",
+	BLAKE3 = "blake3",
+	SHA2_256 = "sha2-256",
+	SHA2_512 = "sha2-512",
+	SHA3_256 = "sha3-256",
+	SHA3_512 = "sha3-512",
+}
+
+const webCryptoDigest = (algorithm: string) => async (data: Uint8Array) =>
+	new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+
+// SHA-2 is computed by WebCrypto, the other functions aren't supported by it
+const DIGEST_FUNCTIONS: { [method in ChecksumMethod]: { (data: Uint8Array): Promise<Uint8Array> } } = {
+	[ChecksumMethod.BLAKE2B]: async data => blake2b(data),
+	[ChecksumMethod.BLAKE3]: async data => blake3(data),
+	[ChecksumMethod.SHA2_256]: webCryptoDigest("SHA-256"),
+	[ChecksumMethod.SHA2_512]: webCryptoDigest("SHA-512"),
+	[ChecksumMethod.SHA3_256]: async data => sha3_256(data),
+	[ChecksumMethod.SHA3_512]: async data => sha3_512(data),
+};
+
+/**
+ * Returns true, if the checksum method is supported by the device.
+ *
+ * @param {string} method - Checksum method name, e.g. "sha2-256".
+ */
+export function isSupportedChecksumMethod(method: string): method is ChecksumMethod {
+	return Object.values(ChecksumMethod).includes(method as ChecksumMethod);
+}
+
+/**
+ * Throws an error, if the checksum method is set and is not supported by the device.
+ *
+ * @param {string} [method] - Checksum method name.
+ * @throws {Error} If the method is not supported.
+ */
+export function validateChecksumMethod(method?: string) {
+	if (method && !isSupportedChecksumMethod(method)) {
+		throw new Error(`Unsupported checksum method '${method}'. Supported methods: ${Object.values(ChecksumMethod).join(", ")}`);
+	}
+}
+
+/**
+ * Computes the checksum of given bytes.
+ *
+ * @param {Uint8Array | ArrayBuffer} data - Content of the file.
+ * @param {ChecksumMethod} method - Checksum function.
+ * @return {Promise<string>} Hex encoded checksum.
+ * @throws {Error} If the method is not supported.
+ */
+export async function computeChecksum(data: Uint8Array | ArrayBuffer, method: ChecksumMethod): Promise<string> {
+	validateChecksumMethod(method);
+	const digest = await DIGEST_FUNCTIONS[method](data instanceof Uint8Array ? data : new Uint8Array(data));
+	return Array.from(digest)
+		.map(byte => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Computes the checksum of a local file.
+ *
+ * @param {string} path - Path of the file.
+ * @param {ChecksumMethod} method - Checksum function.
+ * @return {Promise<string>} Hex encoded checksum.
+ */
+export async function computeFileChecksum(path: string, method: ChecksumMethod): Promise<string> {
+	// @ts-ignore Deno - couldn't generate typings file
+	const data: Uint8Array = await Deno.readFile(path);
+	return computeChecksum(data, method);
+}
+
+/**
+ * Downloads the remote file and computes its checksum.
+ * Headers and basic auth credentials of the audio source are applied to the HTTP request.
+ *
+ * @param {RemoteFileAudioSource} audioSource - Remote file audio source.
+ * @param {ChecksumMethod} method - Checksum function.
+ * @return {Promise<string>} Hex encoded checksum.
+ * @throws {Error} If the file couldn't be downloaded.
+ */
+export async function computeUrlChecksum(audioSource: RemoteFileAudioSource, method: ChecksumMethod): Promise<string> {
+	return computeChecksum(await downloadRemoteFile(audioSource), method);
+}
+
+/**
+ * Downloads the remote file.
+ * Headers and basic auth credentials of the audio source are applied to the HTTP request.
+ *
+ * @param {RemoteFileAudioSource} audioSource - Remote file audio source.
+ * @return {Promise<Uint8Array>} Content of the file.
+ * @throws {Error} If the file couldn't be downloaded.
+ */
+export async function downloadRemoteFile(audioSource: RemoteFileAudioSource): Promise<Uint8Array> {
+	const headers = new Headers();
+	audioSource.headers?.forEach((value, key) => headers.set(key, value));
+	if (audioSource.basicAuthUsername && !headers.has("Authorization")) {
+		headers.set("Authorization", `Basic ${btoa(`${audioSource.basicAuthUsername}:${audioSource.basicAuthPassword ?? ""}`)}`);
+	}
+	const response = await fetch(audioSource.url, { headers });
+	if (!response.ok) {
+		throw new Error(`Remote file '${audioSource.url}' couldn't be downloaded: ${response.status} ${response.statusText}`);
+	}
+	return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Downloads the remote file and returns a copy of the audio source with ```checksum``` and ```checksumMethod``` filled in.
+ *
+ * @param {RemoteFileAudioSource} audioSource - Remote file audio source.
+ * @param {ChecksumMethod} [method] - Checksum function. Default is {@link ChecksumMethod.SHA2_256}.
+ * @return {Promise<RemoteFileAudioSource>} Audio source with the checksum.
+ */
+export async function withChecksum(
+	audioSource: RemoteFileAudioSource,
+	method: ChecksumMethod = ChecksumMethod.SHA2_256
+): Promise<RemoteFileAudioSource> {
+	const checksum = await computeUrlChecksum(audioSource, method);
+	return { ...audioSource, checksum, checksumMethod: method };
+}
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { ChecksumMethod, computeChecksum, validateChecksumMethod } from "./Checksum.ts";
+
+const ABC = new TextEncoder().encode("abc");
+// longer than one BLAKE3 chunk (1024 bytes) and than SHA-3 and BLAKE2b blocks
+const LONG = Uint8Array.from({ length: 3000 }, (_, i) => i % 251);
+
+const KNOWN_DIGESTS: Array<[ChecksumMethod, Uint8Array, string]> = [
+	[
+		ChecksumMethod.BLAKE2B,
+		ABC,
+		"ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+	],
+	[
+		ChecksumMethod.BLAKE2B,
+		LONG,
+		"ce12518dcb627261263eb7e13284e1c423254b97c8d26f78a4efb5fd2000d75399518e3883cf19ef7ce7d674bda64f55bfced2151e838af10ca05ecc1862afff",
+	],
+	[ChecksumMethod.BLAKE3, ABC, "6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85"],
+	[ChecksumMethod.BLAKE3, LONG, "5fade288bf27444bee55ba2babb98c3c922c1e84c2e445e7d1f6da24756f5060"],
+	[ChecksumMethod.SHA2_256, ABC, "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+	[ChecksumMethod.SHA2_256, LONG, "e8ca4bf83f56152c01649f88bd7c91b15ae8137d9a709572e04fae55894ea75e"],
+	[
+		ChecksumMethod.SHA2_512,
+		ABC,
+		"ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f",
+	],
+	[
+		ChecksumMethod.SHA2_512,
+		LONG,
+		"6be2d416221e4e20109412f5ebea5595eff4a0deb9d6bb2ebf31cf3bd02cd76ef1c85b2c8a963f018f1f1431b34527ca914dd799d27c7ed7cd3d579907015951",
+	],
+	[ChecksumMethod.SHA3_256, ABC, "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532"],
+	[ChecksumMethod.SHA3_256, LONG, "509bb1395d62e87a72110a36149d925343c18da098f0971c8fc3a09d87a3b60c"],
+	[
+		ChecksumMethod.SHA3_512,
+		ABC,
+		"b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0",
+	],
+	[
+		ChecksumMethod.SHA3_512,
+		LONG,
+		"1b91fdbb3ee5a4a37dca493c141d9a6e82a913458805f3fb5b61e432492960ca428241de6ad19a59629c18e2e2c08c8ac83de936c4ce34574058d26b39ade07f",
+	],
+];
+
+Deno.test("computeChecksum computes all checksum methods supported by the device", async () => {
+	for (const [method, data, digest] of KNOWN_DIGESTS) {
+		assertEquals(await computeChecksum(data, method), digest, `${method} of ${data.length} bytes`);
+	}
+	assertEquals(new Set(KNOWN_DIGESTS.map(([method]) => method)), new Set(Object.values(ChecksumMethod)));
+});
+
+Deno.test("computeChecksum accepts ArrayBuffer", async () => {
+	assertEquals(await computeChecksum(ABC.slice().buffer, ChecksumMethod.BLAKE3), KNOWN_DIGESTS[2][2]);
+});
+
+Deno.test("Unsupported checksum method is rejected", async () => {
+	validateChecksumMethod(undefined);
+	validateChecksumMethod("sha3-512");
+	assertThrows(() => validateChecksumMethod("md5"), Error, "Unsupported checksum method 'md5'");
+	await assertRejects(() => computeChecksum(ABC, "md5" as ChecksumMethod), Error, "Unsupported checksum method");
+});
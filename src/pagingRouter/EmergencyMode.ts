@@ -0,0 +1,290 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { DigitalInputPinControl } from "../nnControlInputs.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { SequenceItem } from "./AnnouncementSequence.ts";
+import { CallHandle } from "./CallHandle.ts";
+
+/**
+ * Enum representing the state of the emergency mode.
+ *
+ * - IDLE: Emergency mode is not armed, calls are processed normally.
+ * - ARMED: Emergency mode waits for confirmation, calls are processed normally.
+ * - ACTIVE: Evacuation message is looping, all other calls are refused.
+ */
+export enum EmergencyState {
+	IDLE = "IDLE",
+	ARMED = "ARMED",
+	ACTIVE = "ACTIVE",
+}
+
+/**
+ * Defines the parameters of the emergency mode.
+ */
+export type EmergencyParam = {
+	/**
+	 * Evacuation message - local or remote file.
+	 */
+	message: SequenceItem;
+	/**
+	 * Router output names or zone group names, where the message should be played. Usually all outputs.
+	 */
+	outputs: Array<string>;
+	/**
+	 * Priority of the message. The lower the number, the higher the priority. Default is 0.
+	 */
+	priority?: number;
+	/**
+	 * Gap between two repetitions of the message in milliseconds. Default is 1000.
+	 */
+	gapMs?: number;
+	/**
+	 * Digital control input confirming the emergency, e.g. ```device.controlInputs.digital(1)```.
+	 * If set, the mode stays ARMED until the input is active or {@link EmergencyMode.confirm} is called.
+	 */
+	confirmation?: DigitalInputPinControl;
+};
+
+/**
+ * Change of the emergency mode state.
+ *
+ * @property {EmergencyState} state - New state.
+ * @property {EmergencyState} previousState - Previous state.
+ * @property {Date} timestamp - Time of the change.
+ */
+export interface EmergencyStateEvent {
+	state: EmergencyState;
+	previousState: EmergencyState;
+	timestamp: Date;
+}
+
+/**
+ * Registration of an emergency state listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface EmergencySubscription {
+	removeListener: Callback;
+}
+
+/**
+ * Emergency (evacuation) mode of the paging router. Once active, the evacuation message loops on given outputs
+ * until the mode is cleared. All other calls started by the script are canceled and new ones are refused
+ * with {@link EmergencyModeError}. Message is played as a partial call, so outputs unreachable in one repetition
+ * are retried in the next one.
+ *
+ * @example
+ * device.pagingRouter.emergency.onStateChange(event => console.log("Emergency", event.state));
+ * device.pagingRouter.emergency.arm({ message: { audioFilePath: "evacuation.mp3" }, outputs: ["All"], confirmation: device.controlInputs.digital(1) });
+ * // later
+ * device.pagingRouter.emergency.clear();
+ */
+export class EmergencyMode {
+	private state: EmergencyState = EmergencyState.IDLE;
+	private spec: EmergencyParam | null = null;
+	private currentCall: CallHandle | null = null;
+	private ownCallStarting: boolean = false;
+	private gapTimeout: number = 0;
+	private undeliveredOutputs: Map<string, string> = new Map();
+	private confirmationControls: Array<DigitalInputPinControl> = [];
+	private listeners: Array<Consumer<EmergencyStateEvent>> = [];
+	private pagingRouter: NnPagingRouterDefinition;
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig) {
+		this.pagingRouter = pagingRouter;
+		this.loggerConfig = loggerConfig;
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig): EmergencyMode {
+		return new EmergencyMode(pagingRouter, loggerConfig);
+	}
+
+	/**
+	 * Returns current state of the emergency mode.
+	 */
+	public getState(): EmergencyState {
+		return this.state;
+	}
+
+	/**
+	 * Returns true, if the evacuation message is looping.
+	 */
+	public isActive(): boolean {
+		return this.state === EmergencyState.ACTIVE;
+	}
+
+	/**
+	 * Returns outputs, which weren't reached by the last repetition of the message, and their reasons.
+	 */
+	public getUndeliveredOutputs(): Map<string, string> {
+		return new Map(this.undeliveredOutputs);
+	}
+
+	/**
+	 * Arms the emergency mode. Without confirmation, the mode is activated immediately.
+	 *
+	 * @param spec - emergency specification, see {@link EmergencyParam}
+	 * @throws {Error} If the mode is already armed or active
+	 */
+	public arm(spec: EmergencyParam) {
+		if (this.state !== EmergencyState.IDLE) {
+			throw new Error(`Emergency mode is already ${this.state}`);
+		}
+		this.spec = spec;
+		const confirmation = spec.confirmation;
+		if (!confirmation) {
+			this.activate();
+			return;
+		}
+		this.setState(EmergencyState.ARMED);
+		if (!this.confirmationControls.includes(confirmation)) {
+			// control inputs don't support removing of listeners - register each control once
+			this.confirmationControls.push(confirmation);
+			confirmation.onChange(value => value && this.spec?.confirmation === confirmation && this.confirm());
+		}
+		confirmation.getValue() && this.confirm();
+	}
+
+	/**
+	 * Confirms the armed emergency mode and activates it.
+	 * It does nothing, if the mode is not armed.
+	 */
+	public confirm() {
+		if (this.state === EmergencyState.ARMED) {
+			this.activate();
+		}
+	}
+
+	/**
+	 * Clears the emergency mode - the evacuation message is stopped and calls are processed normally again.
+	 */
+	public clear() {
+		if (this.state === EmergencyState.IDLE) {
+			return;
+		}
+		const currentCall = this.currentCall;
+		this.spec = null;
+		this.currentCall = null;
+		clearTimeout(this.gapTimeout);
+		this.undeliveredOutputs = new Map();
+		this.setState(EmergencyState.IDLE);
+		try {
+			currentCall?.cancel();
+		} catch (e) {
+			logger.error("Evacuation message couldn't be canceled. Error: {}", String(e));
+		}
+	}
+
+	/**
+	 * Registers a listener for changes of the emergency mode state.
+	 *
+	 * @param listener the callback function that receives {@link EmergencyStateEvent}
+	 * @return {EmergencySubscription} An object with a removeListener method to unregister the callback
+	 */
+	public onStateChange(listener: Consumer<EmergencyStateEvent>): EmergencySubscription {
+		this.listeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.listeners.indexOf(listener);
+				if (index >= 0) {
+					this.listeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Returns true, if a call can be started now - the mode is not active or the call is the evacuation message.
+	 */
+	public isCallAllowed(): boolean {
+		return !this.isActive() || this.ownCallStarting;
+	}
+
+	private activate() {
+		this.setState(EmergencyState.ACTIVE);
+		try {
+			const canceledActionIds = this.pagingRouter.cancelAll();
+			this.loggerConfig.isEnabledInternal() &&
+				logger.warn("Emergency mode is active. Canceled calls: {}", canceledActionIds.join(", "));
+		} catch (e) {
+			// the evacuation message is played anyway, it preempts calls with lower priority
+			logger.error("Calls couldn't be canceled on emergency. Error: {}", String(e));
+		}
+		this.playMessage();
+	}
+
+	private playMessage() {
+		const spec = this.spec;
+		if (!spec || !this.isActive()) {
+			return;
+		}
+		const common = { priority: spec.priority ?? 0, outputs: spec.outputs, partial: true, trigger: "emergency" };
+		try {
+			this.ownCallStarting = true;
+			this.currentCall =
+				"audioFilePath" in spec.message
+					? this.pagingRouter.startLocalFileCall({ ...spec.message, ...common })
+					: this.pagingRouter.startRemoteFileCall({ ...spec.message, ...common });
+		} catch (e) {
+			logger.error("Evacuation message couldn't be started. Error: {}", String(e));
+			this.scheduleNextMessage(spec);
+			return;
+		} finally {
+			this.ownCallStarting = false;
+		}
+
+		const call = this.currentCall;
+		call.result
+			.then(result => {
+				this.undeliveredOutputs = result.undeliveredOutputs;
+				result.undeliveredOutputs.forEach((reason, output) => {
+					this.loggerConfig.isEnabledInternal() && logger.warn("Evacuation message wasn't delivered to '{}': {}", output, reason);
+				});
+			})
+			.catch(e => logger.error("Evacuation message failed. Error: {}", String(e)))
+			.finally(() => {
+				if (this.currentCall === call) {
+					this.currentCall = null;
+					this.scheduleNextMessage(spec);
+				}
+			});
+	}
+
+	private scheduleNextMessage(spec: EmergencyParam) {
+		if (this.spec === spec && this.isActive()) {
+			this.gapTimeout = setTimeout(() => this.playMessage(), spec.gapMs ?? 1000);
+		}
+	}
+
+	private setState(state: EmergencyState) {
+		const event: EmergencyStateEvent = { state, previousState: this.state, timestamp: new Date() };
+		this.state = state;
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (e) {
+				logger.error("Emergency state listener failed for state '{}'. Error: {}", state, String(e));
+			}
+		});
+	}
+}
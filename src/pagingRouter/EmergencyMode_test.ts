@@ -0,0 +1,85 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { EmergencyState, EmergencyStateEvent } from "./EmergencyMode.ts";
+import { EmergencyModeError } from "./CallErrors.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { DigitalInputPinControl } from "../nnControlInputs.ts";
+import { FakeWebSocketCommunication, settle } from "../testing/FakeWebSocketCommunication.ts";
+
+function createRouter(webSocket: FakeWebSocketCommunication): NnPagingRouterDefinition {
+	return NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+}
+
+Deno.test("Emergency mode cancels calls, loops the message and refuses other calls until cleared", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const states: Array<EmergencyState> = [];
+	router.emergency.onStateChange((event: EmergencyStateEvent) => states.push(event.state));
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	call.result.catch(() => {});
+	webSocket.replyPlaying(call.actionId);
+
+	router.emergency.arm({ message: { audioFilePath: "evacuation.mp3" }, outputs: ["Hall", "Yard"], gapMs: 0 });
+	assertEquals(router.emergency.isActive(), true);
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	const message = webSocket.lastPreparedActionId();
+	assertEquals(webSocket.sentOfType("callPrepareEvent", message)[0].priority, 0);
+	assertThrows(() => router.startLocalFileCall({ priority: 1, outputs: ["Hall"], audioFilePath: "gong.mp3" }), EmergencyModeError);
+
+	webSocket.replyPlaying(message);
+	webSocket.replyResult(message, CallResultStatus.DONE, { Yard: "BUSY" });
+	await settle();
+	assertEquals(router.emergency.getUndeliveredOutputs(), new Map([["Yard", "BUSY"]]));
+	await settle();
+	const repetition = webSocket.lastPreparedActionId();
+	assertEquals(repetition !== message, true);
+
+	webSocket.replyPlaying(repetition);
+	router.emergency.clear();
+	assertEquals(webSocket.sentOfType("callCancelEvent", repetition).length, 1);
+	assertEquals(states, [EmergencyState.ACTIVE, EmergencyState.IDLE]);
+	const afterwards = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	assertEquals(webSocket.lastPreparedActionId(), afterwards.actionId);
+	router.close();
+});
+
+Deno.test("Armed emergency mode is activated by the confirmation input", () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	let onConfirmationChange = (_value: boolean) => {};
+	const confirmation: DigitalInputPinControl = {
+		getValue: () => false,
+		onChange: changeCb => (onConfirmationChange = changeCb),
+	};
+
+	router.emergency.arm({ message: { audioFilePath: "evacuation.mp3" }, outputs: ["Hall"], confirmation });
+	assertEquals(router.emergency.getState(), EmergencyState.ARMED);
+	assertEquals(webSocket.preparedActionIds(), []);
+	assertThrows(() => router.emergency.arm({ message: { audioFilePath: "evacuation.mp3" }, outputs: ["Hall"] }), Error, "already ARMED");
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	call.result.catch(() => {});
+
+	onConfirmationChange(true);
+	assertEquals(router.emergency.getState(), EmergencyState.ACTIVE);
+	assertEquals(webSocket.sentOfType("callCancelEvent", call.actionId).length, 1);
+	assertEquals(webSocket.lastPreparedActionId() !== call.actionId, true);
+	router.close();
+	assertEquals(router.emergency.getState(), EmergencyState.IDLE);
+});
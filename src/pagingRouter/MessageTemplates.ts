@@ -0,0 +1,208 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { MissingFragmentError } from "./CallErrors.ts";
+import { PlaySequenceParam } from "./AnnouncementSequence.ts";
+
+/**
+ * Pre-recorded audio fragments of a language - fragment key mapped to the path of the file in the file manager.
+ * Numbers are looked up by their value, e.g. "3", "40" or "300".
+ *
+ * @example
+ * { "platform": "en/platform.mp3", "delayed": "en/delayed.mp3", "3": "en/3.mp3", "40": "en/40.mp3" }
+ */
+export type FragmentMap = { [key: string]: string };
+
+/**
+ * Values of template placeholders.
+ */
+export type TemplateValues = { [placeholder: string]: string | number | Date };
+
+/**
+ * Defines the parameters required for playing a message template.
+ * Fragments are played as an announcement sequence without gaps, see {@link PlaySequenceParam}.
+ */
+export type PlayTemplateParam = Omit<PlaySequenceParam, "items" | "gapMs"> & {
+	/**
+	 * Name of the defined template or template text.
+	 */
+	template: string;
+	/**
+	 * Language of the fragments.
+	 */
+	language: string;
+	/**
+	 * Values of the placeholders.
+	 */
+	values?: TemplateValues;
+};
+
+/**
+ * Registry of audio fragments and message templates.
+ *
+ * Template is a text of whitespace separated tokens. Each token is either a fragment key or a placeholder:
+ * - ```{name}``` - value is used as a fragment key (e.g. station name)
+ * - ```{name:number}``` - value is a whole number, spoken by fragments of its hundreds, tens and units (e.g. 342 -> "300", "40", "2"),
+ *   unless there is a fragment for the whole number
+ * - ```{name:digits}``` - value is spoken digit by digit (e.g. 12 -> "1", "2")
+ * - ```{name:time}``` - value is a time "HH:MM" or a {@link Date}, spoken as hours and minutes numbers (minutes are omitted if zero)
+ *
+ * @example
+ * device.pagingRouter.templates.defineFragments("en", { platform: "en/platform.mp3", delayed: "en/delayed.mp3", "3": "en/3.mp3" });
+ * device.pagingRouter.templates.defineTemplate("delay", { en: "platform {platform:number} delayed" });
+ * device.pagingRouter.playTemplate({ priority: 10, outputs: ["Hall"], template: "delay", language: "en", values: { platform: 3 } });
+ */
+export class MessageTemplates {
+	private fragments: Map<string, FragmentMap> = new Map();
+	private templates: Map<string, { [language: string]: string } | string> = new Map();
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(loggerConfig: NnLoggerConfig) {
+		this.loggerConfig = loggerConfig;
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(loggerConfig: NnLoggerConfig): MessageTemplates {
+		return new MessageTemplates(loggerConfig);
+	}
+
+	/**
+	 * Adds fragments of the language. Fragments with already defined keys are replaced.
+	 *
+	 * @param language - language of the fragments, e.g. "en"
+	 * @param fragments - fragment keys mapped to file paths, see {@link FragmentMap}
+	 */
+	public defineFragments(language: string, fragments: FragmentMap) {
+		this.fragments.set(language, { ...this.fragments.get(language), ...fragments });
+	}
+
+	/**
+	 * Defines the template or replaces an already defined one.
+	 *
+	 * @param name - name of the template
+	 * @param template - template text used for all languages, or template texts per language
+	 */
+	public defineTemplate(name: string, template: { [language: string]: string } | string) {
+		this.templates.set(name, template);
+	}
+
+	/**
+	 * Renders the template to file paths of its fragments.
+	 *
+	 * @param template - name of the defined template or template text
+	 * @param language - language of the fragments
+	 * @param values - values of the placeholders
+	 * @return file paths in the order they should be played
+	 * @throws {MissingFragmentError} If some of the fragments is not defined for the language
+	 * @throws {Error} If the template is not defined for the language or a placeholder value is missing or invalid
+	 */
+	public render(template: string, language: string, values: TemplateValues = {}): Array<string> {
+		const fragments = this.fragments.get(language) ?? {};
+		const keys = this.getTemplateText(template, language)
+			.split(/\s+/)
+			.filter(token => token.length > 0)
+			.flatMap(token => this.renderToken(token, values, fragments));
+		const missingKeys = keys.filter(key => fragments[key] == null);
+		if (missingKeys.length > 0) {
+			throw new MissingFragmentError(language, Array.from(new Set(missingKeys)));
+		}
+		this.loggerConfig.isEnabledInternal() && logger.debug("Template rendered to fragments: {}", keys.join(", "));
+		return keys.map(key => fragments[key]);
+	}
+
+	private getTemplateText(template: string, language: string): string {
+		const definition = this.templates.get(template);
+		if (definition == null) {
+			return template;
+		}
+		if (typeof definition === "string") {
+			return definition;
+		}
+		const text = definition[language];
+		if (text == null) {
+			throw new Error(`Template '${template}' is not defined for language '${language}'`);
+		}
+		return text;
+	}
+
+	private renderToken(token: string, values: TemplateValues, fragments: FragmentMap): Array<string> {
+		const placeholder = /^\{(\w+)(?::(\w+))?\}$/.exec(token);
+		if (!placeholder) {
+			return [token];
+		}
+		const [, name, type] = placeholder;
+		const value = values[name];
+		if (value == null) {
+			throw new Error(`Value of placeholder '${name}' is missing`);
+		}
+		switch (type) {
+			case undefined:
+				return [String(value)];
+			case "number":
+				return this.renderNumber(this.toWholeNumber(name, value), fragments);
+			case "digits":
+				return String(value).replace(/\s+/g, "").split("");
+			case "time":
+				return this.renderTime(name, value, fragments);
+			default:
+				throw new Error(`Placeholder '${name}' has unknown type '${type}'`);
+		}
+	}
+
+	private renderNumber(value: number, fragments: FragmentMap): Array<string> {
+		if (fragments[String(value)] != null || value < 10) {
+			return [String(value)];
+		}
+		if (value >= 1000) {
+			// thousands are spoken as a number followed by "1000" fragment, e.g. 2500 -> "2", "1000", "500"
+			const thousands = Math.floor(value / 1000);
+			const rest = value % 1000;
+			return [...this.renderNumber(thousands, fragments), "1000", ...(rest > 0 ? this.renderNumber(rest, fragments) : [])];
+		}
+		const magnitude = value >= 100 ? 100 : 10;
+		const head = value - (value % magnitude);
+		const rest = value % magnitude;
+		return [String(head), ...(rest > 0 ? this.renderNumber(rest, fragments) : [])];
+	}
+
+	private renderTime(name: string, value: string | number | Date, fragments: FragmentMap): Array<string> {
+		let hours: number;
+		let minutes: number;
+		if (value instanceof Date) {
+			hours = value.getHours();
+			minutes = value.getMinutes();
+		} else {
+			const time = /^(\d{1,2}):(\d{2})$/.exec(String(value));
+			if (!time) {
+				throw new Error(`Value of placeholder '${name}' is not a time HH:MM: ${value}`);
+			}
+			hours = Number(time[1]);
+			minutes = Number(time[2]);
+		}
+		return [...this.renderNumber(hours, fragments), ...(minutes > 0 ? this.renderNumber(minutes, fragments) : [])];
+	}
+
+	private toWholeNumber(name: string, value: string | number | Date): number {
+		const number = value instanceof Date ? NaN : Number(value);
+		if (!Number.isInteger(number) || number < 0) {
+			throw new Error(`Value of placeholder '${name}' is not a whole number: ${value}`);
+		}
+		return number;
+	}
+}
@@ -0,0 +1,110 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { FragmentMap, MessageTemplates } from "./MessageTemplates.ts";
+import { MissingFragmentError } from "./CallErrors.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { FakeWebSocketCommunication, settle } from "../testing/FakeWebSocketCommunication.ts";
+
+/**
+ * Fragments of the numbers mapped to file names equal to the number, e.g. "20" -> "20".
+ */
+function numberFragments(...numbers: Array<number>): FragmentMap {
+	return Object.fromEntries(numbers.map(number => [String(number), String(number)]));
+}
+
+function createTemplates(fragments: FragmentMap): MessageTemplates {
+	const templates = MessageTemplates.getInstance(NnLoggerConfig.getInstance());
+	templates.defineFragments("en", fragments);
+	return templates;
+}
+
+Deno.test("MessageTemplates renders numbers from tens, hundreds and thousands", () => {
+	const templates = createTemplates(numberFragments(1, 2, 3, 5, 7, 10, 20, 100, 500, 1000));
+	const render = (value: number) => templates.render("{value:number}", "en", { value });
+
+	assertEquals(render(7), ["7"]);
+	assertEquals(render(25), ["20", "5"]);
+	assertEquals(render(13), ["10", "3"]);
+	assertEquals(render(125), ["100", "20", "5"]);
+	assertEquals(render(2500), ["2", "1000", "500"]);
+	assertEquals(render(1001), ["1", "1000", "1"]);
+});
+
+Deno.test("MessageTemplates prefers fragment of the whole number", () => {
+	const templates = createTemplates(numberFragments(10, 3, 13, 20, 100));
+	assertEquals(templates.render("{value:number}", "en", { value: 13 }), ["13"]);
+	assertEquals(templates.render("{value:number}", "en", { value: 113 }), ["100", "13"]);
+});
+
+Deno.test("MessageTemplates renders digits and times", () => {
+	const templates = createTemplates(numberFragments(0, 1, 2, 5, 8, 10, 20));
+	assertEquals(templates.render("{value:digits}", "en", { value: "120 5" }), ["1", "2", "0", "5"]);
+	assertEquals(templates.render("{value:time}", "en", { value: "08:25" }), ["8", "20", "5"]);
+	assertEquals(templates.render("{value:time}", "en", { value: "10:00" }), ["10"]);
+	assertEquals(templates.render("{value:time}", "en", { value: new Date(2025, 0, 1, 20, 5) }), ["20", "5"]);
+});
+
+Deno.test("MessageTemplates renders defined template for the language", () => {
+	const templates = createTemplates({ ...numberFragments(3), platform: "en/platform.mp3", delayed: "en/delayed.mp3" });
+	templates.defineFragments("cs", { ...numberFragments(3), platform: "cs/nastupiste.mp3", delayed: "cs/zpozden.mp3" });
+	templates.defineTemplate("delay", { en: "platform {platform:number} delayed", cs: "delayed platform {platform:number}" });
+
+	assertEquals(templates.render("delay", "en", { platform: 3 }), ["en/platform.mp3", "3", "en/delayed.mp3"]);
+	assertEquals(templates.render("delay", "cs", { platform: 3 }), ["cs/zpozden.mp3", "cs/nastupiste.mp3", "3"]);
+	assertThrows(() => templates.render("delay", "de", { platform: 3 }), Error, "is not defined for language 'de'");
+});
+
+Deno.test("MessageTemplates reports missing fragments and invalid values", () => {
+	const templates = createTemplates(numberFragments(20));
+	const error = assertThrows(() => templates.render("{value:number} {value:number}", "en", { value: 25 }), MissingFragmentError);
+	assertEquals((error as MissingFragmentError).fragments, ["5"]);
+
+	assertThrows(() => templates.render("{value:number}", "en", {}), Error, "is missing");
+	assertThrows(() => templates.render("{value:number}", "en", { value: 2.5 }), Error, "not a whole number");
+	assertThrows(() => templates.render("{value:time}", "en", { value: "8.25" }), Error, "not a time");
+	assertThrows(() => templates.render("{value:money}", "en", { value: 1 }), Error, "unknown type");
+});
+
+Deno.test("Template fragments are played without a queued call with the same priority in between", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+	router.templates.defineFragments("en", { ...numberFragments(3), platform: "platform.mp3" });
+	router.enableQueue();
+	const message = router.playTemplate({
+		priority: 10,
+		outputs: ["Hall"],
+		template: "platform {platform:number}",
+		language: "en",
+		values: { platform: 3 },
+	});
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	const queuedCall = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "queued.mp3" });
+
+	webSocket.replyResult(webSocket.lastPreparedActionId());
+	await settle();
+	webSocket.replyDone(webSocket.lastPreparedActionId());
+	assertEquals((await message.result).completed, true);
+	assertEquals(
+		webSocket.sentOfType("callPrepareEvent").map(event => event.audioSource?.path),
+		["platform.mp3", "3", "queued.mp3"]
+	);
+	webSocket.replyDone(queuedCall.actionId);
+	await queuedCall.result;
+	router.close();
+});
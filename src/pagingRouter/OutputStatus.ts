@@ -0,0 +1,256 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { CallLifecycleEvent, CallLifecycleStage } from "./CallLifecycleEvent.ts";
+import { UndeliveredOutput, UndeliveredReason } from "./UndeliveredOutput.ts";
+
+/**
+ * Enum representing the occupancy of a router output.
+ *
+ * - FREE: No call is known to be played in the output.
+ * - OURS: Call started by the script is played in the output, see ```actionId``` and ```priority```.
+ * - FOREIGN: Output was reported busy by the device, it is used by a call not started by the script (e.g. a paging console).
+ * - UNAVAILABLE: Output was reported offline or not found by the device.
+ *
+ * FOREIGN and UNAVAILABLE occupancy can't be observed to end, so it expires to FREE, see {@link OutputStatusTracker.setStatusTtl}.
+ */
+export enum OutputOccupancy {
+	FREE = "FREE",
+	OURS = "OURS",
+	FOREIGN = "FOREIGN",
+	UNAVAILABLE = "UNAVAILABLE",
+}
+
+/**
+ * Status of a router output.
+ *
+ * @property {string} output - Router output name.
+ * @property {OutputOccupancy} occupancy - Current occupancy of the output.
+ * @property {number} [priority] - Priority of the call played in the output. Present for OURS occupancy only.
+ * @property {string} [actionId] - Unique identifier of the call played in the output. Present for OURS occupancy only.
+ * @property {string} [detail] - Reason reported by the device. Present for FOREIGN and UNAVAILABLE occupancy only.
+ * @property {Date} updatedAt - Time of the last change of the status.
+ */
+export interface OutputStatus {
+	output: string;
+	occupancy: OutputOccupancy;
+	priority?: number;
+	actionId?: string;
+	detail?: string;
+	updatedAt: Date;
+}
+
+/**
+ * Registration of an output status listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface OutputStatusSubscription {
+	removeListener: Callback;
+}
+
+/**
+ * Tracks status of router outputs, fed by lifecycle events of calls started by the script.
+ * The device scripting API doesn't report calls of other sources, so FOREIGN occupancy is known only from BUSY
+ * (or interrupted) results of the script calls. The device doesn't report, when such a call ends nor when an offline output
+ * is back, so FOREIGN and UNAVAILABLE statuses may be stale. They are kept until a call of the script reaches the output again,
+ * or until they expire to FREE after 60 seconds without a new report (see {@link setStatusTtl}).
+ *
+ * Outputs are listed, once they are set as known outputs (see {@link ZoneRegistry.setKnownOutputs}) or used by a call.
+ *
+ * @example
+ * const status = device.pagingRouter.outputStatus;
+ * status.onChange(event => busyLed(event.output, event.occupancy !== OutputOccupancy.FREE));
+ * const outputs = status.getFreeOutputs(["Ground floor"]);
+ */
+export class OutputStatusTracker {
+	private statuses: Map<string, OutputStatus> = new Map();
+	private listeners: Array<Consumer<OutputStatus>> = [];
+	private expiryTimeouts: Map<string, number> = new Map();
+	private statusTtlMs: number = 60000;
+	private pagingRouter: NnPagingRouterDefinition;
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig) {
+		this.pagingRouter = pagingRouter;
+		this.loggerConfig = loggerConfig;
+		this.pagingRouter.onCallLifecycleEvent(event => this.onCallLifecycleEvent(event));
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(pagingRouter: NnPagingRouterDefinition, loggerConfig: NnLoggerConfig): OutputStatusTracker {
+		return new OutputStatusTracker(pagingRouter, loggerConfig);
+	}
+
+	/**
+	 * Returns status of all known outputs.
+	 */
+	public getOutputs(): Array<OutputStatus> {
+		const outputs = new Set([...(this.pagingRouter.zones.getKnownOutputs() ?? []), ...this.statuses.keys()]);
+		return Array.from(outputs).map(output => this.getOutput(output));
+	}
+
+	/**
+	 * Returns status of the output. Output, which was never used, is FREE.
+	 *
+	 * @param output - router output name
+	 */
+	public getOutput(output: string): OutputStatus {
+		const status = this.statuses.get(output);
+		return status ? { ...status } : { output, occupancy: OutputOccupancy.FREE, updatedAt: new Date(0) };
+	}
+
+	/**
+	 * Returns FREE outputs of given outputs and zone groups, e.g. to start a call on free zones only.
+	 *
+	 * @param outputs - router output names and/or zone group names, all known outputs if empty
+	 * @return router output names
+	 * @throws {UnknownOutputError} If known outputs are set and some of the names is neither a group nor a known output
+	 */
+	public getFreeOutputs(outputs?: Array<string>): Array<string> {
+		const candidates = outputs ? this.pagingRouter.zones.resolve(outputs) : this.getOutputs().map(status => status.output);
+		return candidates.filter(output => this.getOutput(output).occupancy === OutputOccupancy.FREE);
+	}
+
+	/**
+	 * Sets how long FOREIGN and UNAVAILABLE statuses are kept without a new report from the device.
+	 * The output is FREE afterward, the next call of the script to the output refreshes the status.
+	 * It applies to statuses reported from now on.
+	 *
+	 * @param ttlMs - time in milliseconds, -1 to keep the statuses until a call of the script reaches the output. Default is 60000.
+	 */
+	public setStatusTtl(ttlMs: number) {
+		this.statusTtlMs = ttlMs;
+	}
+
+	/**
+	 * Clears expiry timers of the statuses. It is called by {@link NnPagingRouterDefinition.close}.
+	 */
+	public close() {
+		this.expiryTimeouts.forEach(timeout => clearTimeout(timeout));
+		this.expiryTimeouts.clear();
+	}
+
+	/**
+	 * Registers a listener for changes of output status.
+	 *
+	 * @param listener the callback function that receives new {@link OutputStatus} of the changed output
+	 * @return {OutputStatusSubscription} An object with a removeListener method to unregister the callback
+	 */
+	public onChange(listener: Consumer<OutputStatus>): OutputStatusSubscription {
+		this.listeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.listeners.indexOf(listener);
+				if (index >= 0) {
+					this.listeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	private onCallLifecycleEvent(event: CallLifecycleEvent) {
+		switch (event.stage) {
+			case CallLifecycleStage.PLAYING:
+			case CallLifecycleStage.PARTIAL: {
+				const call = this.pagingRouter.getActiveCall(event.actionId);
+				call?.outputs
+					.filter(output => !event.undeliveredOutputs.has(output))
+					.forEach(output =>
+						this.update({
+							output,
+							occupancy: OutputOccupancy.OURS,
+							priority: call.priority,
+							actionId: call.actionId,
+							updatedAt: event.timestamp,
+						})
+					);
+				this.updateUndelivered(event.undelivered, event.timestamp);
+				break;
+			}
+			case CallLifecycleStage.BUSY_RETRY:
+				this.updateUndelivered(event.undelivered, event.timestamp);
+				break;
+			case CallLifecycleStage.FINISHED:
+			case CallLifecycleStage.FAILED:
+				this.releaseOutputs(event);
+				this.updateUndelivered(event.undelivered, event.timestamp);
+				break;
+		}
+	}
+
+	private releaseOutputs(event: CallLifecycleEvent) {
+		// output taken by a call with higher priority, which wasn't started by the script
+		const occupancy = event.state === CallResultStatus.INTERRUPTED ? OutputOccupancy.FOREIGN : OutputOccupancy.FREE;
+		this.statuses.forEach(status => {
+			if (status.actionId === event.actionId) {
+				this.update({ output: status.output, occupancy, updatedAt: event.timestamp });
+			}
+		});
+	}
+
+	private updateUndelivered(undelivered: Array<UndeliveredOutput>, timestamp: Date) {
+		undelivered.forEach(({ output, reason, detail }) => {
+			if (reason === UndeliveredReason.BUSY || reason === UndeliveredReason.PREEMPTED) {
+				this.update({ output, occupancy: OutputOccupancy.FOREIGN, detail, updatedAt: timestamp });
+			} else if (reason === UndeliveredReason.OFFLINE || reason === UndeliveredReason.NOT_FOUND) {
+				this.update({ output, occupancy: OutputOccupancy.UNAVAILABLE, detail, updatedAt: timestamp });
+			}
+		});
+	}
+
+	private update(status: OutputStatus) {
+		this.scheduleExpiry(status);
+		const previous = this.statuses.get(status.output);
+		if (
+			previous &&
+			previous.occupancy === status.occupancy &&
+			previous.actionId === status.actionId &&
+			previous.priority === status.priority &&
+			previous.detail === status.detail
+		) {
+			return;
+		}
+		this.statuses.set(status.output, status);
+		this.loggerConfig.isEnabledInternal() && logger.debug("Output '{}' is {}", status.output, status.occupancy);
+		this.listeners.forEach(listener => {
+			try {
+				listener({ ...status });
+			} catch (e) {
+				logger.error("Output status listener failed for output '{}'. Error: {}", status.output, String(e));
+			}
+		});
+	}
+
+	private scheduleExpiry(status: OutputStatus) {
+		clearTimeout(this.expiryTimeouts.get(status.output));
+		this.expiryTimeouts.delete(status.output);
+		if (this.statusTtlMs < 0 || (status.occupancy !== OutputOccupancy.FOREIGN && status.occupancy !== OutputOccupancy.UNAVAILABLE)) {
+			return;
+		}
+		const timeout = setTimeout(() => {
+			this.loggerConfig.isEnabledInternal() && logger.debug("{} status of output '{}' expired", status.occupancy, status.output);
+			this.update({ output: status.output, occupancy: OutputOccupancy.FREE, updatedAt: new Date() });
+		}, this.statusTtlMs);
+		this.expiryTimeouts.set(status.output, timeout);
+	}
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { OutputOccupancy, OutputStatus } from "./OutputStatus.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication, settle } from "../testing/FakeWebSocketCommunication.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { CallProgressStatus } from "../events/incoming/CallProgressEvent.ts";
+
+function createRouter(webSocket: FakeWebSocketCommunication): NnPagingRouterDefinition {
+	const router = NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+	router.zones.setKnownOutputs(["Hall", "Yard", "Gate"]);
+	return router;
+}
+
+function occupancies(router: NnPagingRouterDefinition): { [output: string]: OutputOccupancy } {
+	return Object.fromEntries(router.outputStatus.getOutputs().map(status => [status.output, status.occupancy]));
+}
+
+Deno.test("Output status follows calls of the script and outputs reported undelivered", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const changes: Array<OutputStatus> = [];
+	router.outputStatus.onChange(status => changes.push(status));
+	assertEquals(router.outputStatus.getFreeOutputs(), ["Hall", "Yard", "Gate"]);
+
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall", "Yard", "Gate"], audioFilePath: "gong.mp3", partial: true });
+	webSocket.replyPrepared(call.actionId);
+	webSocket.replyProgress(call.actionId, CallProgressStatus.PLAYING, { Yard: "Output busy", Gate: "Device offline" });
+	assertEquals(occupancies(router), { Hall: OutputOccupancy.OURS, Yard: OutputOccupancy.FOREIGN, Gate: OutputOccupancy.UNAVAILABLE });
+	const hall = router.outputStatus.getOutput("Hall");
+	assertEquals([hall.actionId, hall.priority], [call.actionId, 10]);
+	assertEquals(router.outputStatus.getOutput("Yard").detail, "Output busy");
+	assertEquals(router.outputStatus.getFreeOutputs(["Hall", "Yard"]), []);
+
+	webSocket.replyResult(call.actionId, CallResultStatus.DONE, { Yard: "Output busy", Gate: "Device offline" });
+	await call.result;
+	assertEquals(occupancies(router), { Hall: OutputOccupancy.FREE, Yard: OutputOccupancy.FOREIGN, Gate: OutputOccupancy.UNAVAILABLE });
+	assertEquals(router.outputStatus.getFreeOutputs(), ["Hall"]);
+	assertEquals(
+		changes.map(status => `${status.output}:${status.occupancy}`),
+		["Hall:OURS", "Yard:FOREIGN", "Gate:UNAVAILABLE", "Hall:FREE"]
+	);
+	router.close();
+});
+
+Deno.test("Output used by a call with higher priority is FOREIGN until the status expires", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.outputStatus.setStatusTtl(10);
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Hall"], audioFilePath: "gong.mp3" });
+	webSocket.replyPlaying(call.actionId);
+	webSocket.replyResult(call.actionId, CallResultStatus.INTERRUPTED);
+	await call.result;
+	assertEquals(router.outputStatus.getOutput("Hall").occupancy, OutputOccupancy.FOREIGN);
+
+	await settle(20);
+	assertEquals(router.outputStatus.getOutput("Hall").occupancy, OutputOccupancy.FREE);
+	assertEquals(router.outputStatus.getFreeOutputs(), ["Hall", "Yard", "Gate"]);
+	router.close();
+});
@@ -0,0 +1,366 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { WebSocketCommunication } from "../communication/WebSocketCommunication.ts";
+import { ConnectionState, ConnectionStateEvent } from "../communication/ConnectionState.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { Callback, Consumer } from "../utils/FunctionalInterfaces.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { BusyRetryPolicy } from "./BusyRetryPolicy.ts";
+import { SequenceItem } from "./AnnouncementSequence.ts";
+import { CallHandle, CallResult } from "./CallHandle.ts";
+import { CallLifecycleEvent, CallLifecycleStage } from "./CallLifecycleEvent.ts";
+
+/**
+ * Enum representing the state of a playlist.
+ *
+ * - STOPPED: Playlist is not playing, it starts from the first track on play.
+ * - PLAYING: Tracks are played one after another.
+ * - PAUSED: Playlist is paused, the current track is played again from its beginning on play.
+ *   It is paused on connection loss as well, and resumed automatically once the connection is restored.
+ */
+export enum PlaylistState {
+	STOPPED = "STOPPED",
+	PLAYING = "PLAYING",
+	PAUSED = "PAUSED",
+}
+
+/**
+ * Defines the parameters of a playlist (e.g. background music).
+ */
+export type PlaylistParam = {
+	/**
+	 * Tracks - local or remote files.
+	 */
+	tracks: Array<SequenceItem>;
+	/**
+	 * Router output names or zone group names, where the playlist should be played.
+	 */
+	outputs: Array<string>;
+	/**
+	 * Priority of the tracks. The lower the number, the higher the priority.
+	 * It should be lower than priority of pages, so they interrupt the playlist. Default is 1000.
+	 */
+	priority?: number;
+	/**
+	 * If true, tracks are played in random order, which is changed on each loop. Default is false.
+	 */
+	shuffle?: boolean;
+	/**
+	 * If true, the playlist is started again after the last track. Default is true.
+	 */
+	loop?: boolean;
+	/**
+	 * Delay in milliseconds before the next track, when a track failed (e.g. file not found). Default is 5000.
+	 */
+	failureDelayMs?: number;
+	/**
+	 * Defines how tracks are restarted, when some of the outputs are busy (e.g. by a page).
+	 * Default is retrying every second without limit.
+	 */
+	busyRetry?: BusyRetryPolicy;
+	/**
+	 * What triggered the playlist. It is stored in the call history of each track. Default is "playlist".
+	 */
+	trigger?: string;
+};
+
+/**
+ * Track, which started playing.
+ *
+ * @property {number} index - Index of the track in {@link PlaylistParam.tracks}.
+ * @property {SequenceItem} track - The track.
+ * @property {string} actionId - Unique identifier of the track call.
+ * @property {Date} timestamp - Time when the device started playing the track.
+ */
+export interface NowPlayingEvent {
+	index: number;
+	track: SequenceItem;
+	actionId: string;
+	timestamp: Date;
+}
+
+/**
+ * Registration of a now-playing listener.
+ *
+ * @property {Callback} removeListener - Unregisters the listener.
+ */
+export interface PlaylistSubscription {
+	removeListener: Callback;
+}
+
+/**
+ * Plays a list of tracks as a chain of calls on {@link NnPagingRouterDefinition} with low priority.
+ * When a track is interrupted by a call with higher priority, the playlist continues with the next track.
+ * Tracks are played without timeout and partially, so unreachable outputs don't stop the playlist.
+ * On connection loss, the playlist is paused instead of skipping tracks, which can't be played.
+ * It is resumed with the interrupted track, once the connection is restored.
+ *
+ * @example
+ * const music = device.pagingRouter.createPlaylist({
+ *     tracks: [{ audioFilePath: "music1.mp3" }, { audioFilePath: "music2.mp3" }],
+ *     outputs: ["Hall", "Shop"],
+ *     shuffle: true,
+ * });
+ * music.onNowPlaying(event => console.log(`Now playing track ${event.index}`));
+ * music.play();
+ */
+export class PlaylistPlayer {
+	private state: PlaylistState = PlaylistState.STOPPED;
+	private order: Array<number> = [];
+	private position: number = 0;
+	private currentCall: CallHandle | null = null;
+	private failureTimeout: number = 0;
+	private pausedByConnectionLoss: boolean = false;
+	private listeners: Array<Consumer<NowPlayingEvent>> = [];
+	private spec: PlaylistParam;
+	private pagingRouter: NnPagingRouterDefinition;
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(
+		pagingRouter: NnPagingRouterDefinition,
+		webSocket: WebSocketCommunication,
+		spec: PlaylistParam,
+		loggerConfig: NnLoggerConfig
+	) {
+		this.pagingRouter = pagingRouter;
+		this.spec = spec;
+		this.loggerConfig = loggerConfig;
+		this.order = this.createOrder();
+		webSocket.onConnectionStateChange(event => this.onConnectionStateChange(event));
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(
+		pagingRouter: NnPagingRouterDefinition,
+		webSocket: WebSocketCommunication,
+		spec: PlaylistParam,
+		loggerConfig: NnLoggerConfig
+	): PlaylistPlayer {
+		return new PlaylistPlayer(pagingRouter, webSocket, spec, loggerConfig);
+	}
+
+	/**
+	 * Returns current state of the playlist.
+	 */
+	public getState(): PlaylistState {
+		return this.state;
+	}
+
+	/**
+	 * Returns index of the current track in {@link PlaylistParam.tracks}, or null if the playlist is stopped.
+	 */
+	public getCurrentIndex(): number | null {
+		return this.state === PlaylistState.STOPPED ? null : this.order[this.position];
+	}
+
+	/**
+	 * Starts the playlist or resumes the paused playlist. It does nothing, if the playlist is playing.
+	 */
+	public play() {
+		if (this.state === PlaylistState.PLAYING) {
+			return;
+		}
+		this.pausedByConnectionLoss = false;
+		this.state = PlaylistState.PLAYING;
+		this.playTrack();
+	}
+
+	/**
+	 * Pauses the playlist. The current track is canceled and played again from its beginning on {@link play}.
+	 */
+	public pause() {
+		if (this.state !== PlaylistState.PLAYING) {
+			return;
+		}
+		this.state = PlaylistState.PAUSED;
+		this.cancelCurrentTrack();
+	}
+
+	/**
+	 * Skips the current track. The next track is played, if the playlist is playing.
+	 */
+	public skip() {
+		if (this.state === PlaylistState.STOPPED) {
+			return;
+		}
+		this.cancelCurrentTrack();
+		this.next();
+	}
+
+	/**
+	 * Stops the playlist. It starts from the first track on {@link play}.
+	 */
+	public stop() {
+		this.state = PlaylistState.STOPPED;
+		this.pausedByConnectionLoss = false;
+		this.cancelCurrentTrack();
+		this.position = 0;
+		this.order = this.createOrder();
+	}
+
+	/**
+	 * Registers a listener called whenever the device starts playing a track.
+	 *
+	 * @param listener the callback function that receives {@link NowPlayingEvent}
+	 * @return {PlaylistSubscription} An object with a removeListener method to unregister the callback
+	 */
+	public onNowPlaying(listener: Consumer<NowPlayingEvent>): PlaylistSubscription {
+		this.listeners.push(listener);
+		return {
+			removeListener: () => {
+				const index = this.listeners.indexOf(listener);
+				if (index >= 0) {
+					this.listeners.splice(index, 1);
+				}
+			},
+		};
+	}
+
+	private playTrack() {
+		if (this.state !== PlaylistState.PLAYING || this.currentCall || this.order.length === 0) {
+			return;
+		}
+		const index = this.order[this.position];
+		const track = this.spec.tracks[index];
+		const common = {
+			priority: this.spec.priority ?? 1000,
+			outputs: this.spec.outputs,
+			partial: true,
+			busyRetry: this.spec.busyRetry,
+			timeouts: { callTimeoutMs: -1 },
+			trigger: this.spec.trigger ?? "playlist",
+		};
+		let call: CallHandle;
+		try {
+			call =
+				"audioFilePath" in track
+					? this.pagingRouter.startLocalFileCall({ ...track, ...common })
+					: this.pagingRouter.startRemoteFileCall({ ...track, ...common });
+		} catch (e) {
+			logger.error("Playlist track {} couldn't be started. Error: {}", index, String(e));
+			this.scheduleNextTrack();
+			return;
+		}
+		this.currentCall = call;
+		const subscription = call.onLifecycleEvent((event: CallLifecycleEvent) => {
+			if (event.stage !== CallLifecycleStage.PLAYING && event.stage !== CallLifecycleStage.PARTIAL) {
+				return;
+			}
+			// PLAYING is reported again, when the track is restarted after BUSY retry
+			subscription.removeListener();
+			if (this.currentCall === call) {
+				this.notifyNowPlaying({ index, track, actionId: call.actionId, timestamp: event.timestamp });
+			}
+		});
+		call.result
+			.then(result => this.onTrackFinished(call, result))
+			.catch(e => {
+				if (this.currentCall === call) {
+					logger.error("Playlist track {} failed. Error: {}", index, String(e));
+					this.currentCall = null;
+					this.scheduleNextTrack();
+				}
+			});
+	}
+
+	private onTrackFinished(call: CallHandle, result: CallResult) {
+		if (this.currentCall !== call) {
+			// track was skipped, paused or stopped
+			return;
+		}
+		this.currentCall = null;
+		if (result.state === CallResultStatus.DONE || result.state === CallResultStatus.INTERRUPTED) {
+			this.loggerConfig.isEnabledInternal() &&
+				result.state === CallResultStatus.INTERRUPTED &&
+				logger.debug("Playlist track '{}' was interrupted. Continuing with the next track", result.actionId);
+			this.next();
+			return;
+		}
+		this.loggerConfig.isEnabledInternal() && logger.warn("Playlist track '{}' finished with state '{}'", result.actionId, result.state);
+		this.scheduleNextTrack();
+	}
+
+	private onConnectionStateChange(event: ConnectionStateEvent) {
+		if (event.state === ConnectionState.CLOSED) {
+			this.pausedByConnectionLoss = false;
+		} else if (event.previousState === ConnectionState.OPEN && this.state === PlaylistState.PLAYING) {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Connection was lost, the playlist is paused");
+			// the track can't be canceled without the connection, its call is failed by the paging router
+			clearTimeout(this.failureTimeout);
+			this.currentCall = null;
+			this.state = PlaylistState.PAUSED;
+			this.pausedByConnectionLoss = true;
+		} else if (event.state === ConnectionState.OPEN && this.pausedByConnectionLoss) {
+			this.loggerConfig.isEnabledInternal() && logger.debug("Connection was restored, the playlist is resumed");
+			this.play();
+		}
+	}
+
+	private scheduleNextTrack() {
+		clearTimeout(this.failureTimeout);
+		this.failureTimeout = setTimeout(() => this.next(), this.spec.failureDelayMs ?? 5000);
+	}
+
+	private next() {
+		clearTimeout(this.failureTimeout);
+		this.position++;
+		if (this.position >= this.order.length) {
+			this.position = 0;
+			this.order = this.createOrder();
+			if (!(this.spec.loop ?? true)) {
+				this.state = PlaylistState.STOPPED;
+				return;
+			}
+		}
+		this.playTrack();
+	}
+
+	private cancelCurrentTrack() {
+		clearTimeout(this.failureTimeout);
+		const call = this.currentCall;
+		this.currentCall = null;
+		try {
+			call?.cancel();
+		} catch (e) {
+			logger.error("Playlist track couldn't be canceled. Error: {}", String(e));
+		}
+	}
+
+	private createOrder(): Array<number> {
+		const order = this.spec.tracks.map((_, index) => index);
+		if (this.spec.shuffle) {
+			for (let i = order.length - 1; i > 0; i--) {
+				const j = Math.floor(Math.random() * (i + 1));
+				[order[i], order[j]] = [order[j], order[i]];
+			}
+		}
+		return order;
+	}
+
+	private notifyNowPlaying(event: NowPlayingEvent) {
+		this.listeners.forEach(listener => {
+			try {
+				listener(event);
+			} catch (e) {
+				logger.error("Now-playing listener failed for track {}. Error: {}", event.index, String(e));
+			}
+		});
+	}
+}
@@ -0,0 +1,90 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication, settle } from "../testing/FakeWebSocketCommunication.ts";
+import { ConnectionState, DisconnectReason } from "../communication/ConnectionState.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { OutputOccupancy } from "./OutputStatus.ts";
+import { NowPlayingEvent, PlaylistState } from "./PlaylistPlayer.ts";
+
+function createRouter(webSocket: FakeWebSocketCommunication): NnPagingRouterDefinition {
+	return NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+}
+
+function preparedFiles(webSocket: FakeWebSocketCommunication): Array<string | undefined> {
+	return webSocket.sentOfType("callPrepareEvent").map(event => event.audioSource?.path);
+}
+
+Deno.test("Playlist loops tracks and continues with the next track after interruption", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	const playlist = router.createPlaylist({ outputs: ["Hall"], tracks: [{ audioFilePath: "a.mp3" }, { audioFilePath: "b.mp3" }] });
+	const nowPlaying: Array<NowPlayingEvent> = [];
+	playlist.onNowPlaying(event => nowPlaying.push(event));
+	playlist.play();
+
+	webSocket.replyDone(webSocket.lastPreparedActionId());
+	await settle();
+	webSocket.replyPlaying(webSocket.lastPreparedActionId());
+	webSocket.replyResult(webSocket.lastPreparedActionId(), CallResultStatus.INTERRUPTED);
+	await settle();
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "b.mp3", "a.mp3"]);
+	assertEquals(
+		nowPlaying.map(event => event.index),
+		[0, 1]
+	);
+	const track = webSocket.sentOfType("callPrepareEvent")[0];
+	assertEquals(track.priority, 1000);
+
+	playlist.stop();
+	assertEquals(playlist.getState(), PlaylistState.STOPPED);
+	assertEquals(webSocket.sentOfType("callCancelEvent", webSocket.lastPreparedActionId()).length, 1);
+	router.close();
+});
+
+Deno.test("Playlist track is failed on connection loss and the playlist resumes on reconnect", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = createRouter(webSocket);
+	router.enableQueue();
+	const playlist = router.createPlaylist({ outputs: ["Hall"], tracks: [{ audioFilePath: "a.mp3" }] });
+	playlist.play();
+	const track = webSocket.lastPreparedActionId();
+	webSocket.replyPlaying(track);
+	const queuedCall = router.startLocalFileCall({ priority: 1000, outputs: ["Hall"], audioFilePath: "queued.mp3" });
+	assertEquals(router.outputStatus.getOutput("Hall").occupancy, OutputOccupancy.OURS);
+
+	webSocket.setConnectionState(ConnectionState.RECONNECTING, DisconnectReason.MISSING_HEARTBEAT);
+	assertEquals(playlist.getState(), PlaylistState.PAUSED);
+	assertEquals(
+		router.getActiveCalls().map(call => call.actionId),
+		[queuedCall.actionId]
+	);
+	assertEquals(router.outputStatus.getOutput("Hall").occupancy, OutputOccupancy.FREE);
+	// late result of the failed track is ignored
+	webSocket.replyResult(track);
+
+	webSocket.setConnectionState(ConnectionState.OPEN);
+	await settle();
+	assertEquals(playlist.getState(), PlaylistState.PLAYING);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "queued.mp3"]);
+	webSocket.replyDone(queuedCall.actionId);
+	assertEquals((await queuedCall.result).state, CallResultStatus.DONE);
+	assertEquals(preparedFiles(webSocket), ["a.mp3", "queued.mp3", "a.mp3"]);
+	router.close();
+});
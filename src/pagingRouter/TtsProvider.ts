@@ -0,0 +1,130 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RemoteFileAudioSource } from "../nnPagingRouter.ts";
+
+/**
+ * Options of the rendered speech.
+ */
+export type TtsOptions = {
+	/**
+	 * Language of the text, e.g. "en-US". If empty, default language of the provider is used.
+	 */
+	language?: string;
+	/**
+	 * Voice name supported by the provider. If empty, default voice of the provider is used.
+	 */
+	voice?: string;
+};
+
+/**
+ * Rendered speech, which can be downloaded by the device.
+ *
+ * @property {RemoteFileAudioSource} audioSource - Source of the audio file reachable from the device.
+ * @property {string} format - Audio file format (file extension without dot), e.g. "mp3" or "wav".
+ */
+export interface TtsAudio {
+	audioSource: RemoteFileAudioSource;
+	format: string;
+}
+
+/**
+ * Text-to-speech engine used by {@link NnPagingRouterDefinition.playText}.
+ * The same text with the same options has to be always rendered to the same audio, because rendered audio is cached.
+ */
+export interface TtsProvider {
+	/**
+	 * Name of the provider. It is part of the cache key, so audio of different providers is not mixed.
+	 */
+	name: string;
+	/**
+	 * Renders the text to speech.
+	 */
+	render: (text: string, options: TtsOptions) => Promise<TtsAudio>;
+}
+
+/**
+ * Options of {@link HttpTtsProvider}.
+ */
+export type HttpTtsProviderOptions = {
+	/**
+	 * URL of the TTS endpoint reachable from the device, e.g. "http://192.168.1.10:8080/tts".
+	 */
+	url: string;
+	/**
+	 * Audio file format returned by the endpoint. Default is "mp3".
+	 */
+	format?: string;
+	/**
+	 * Headers which will be set to HTTP request of the device.
+	 */
+	headers?: Map<string, string>;
+	/**
+	 * Name of the provider. Default is "http".
+	 */
+	name?: string;
+};
+
+/**
+ * Provider rendering speech by an HTTP endpoint, which returns audio for the query parameters
+ * ```text```, ```language``` and ```voice```. The device downloads the audio directly from the endpoint.
+ * It is intended for testing with a local HTTP stand-in or for simple TTS servers.
+ *
+ * @example
+ * device.pagingRouter.setTtsProvider(new HttpTtsProvider({ url: "http://192.168.1.10:8080/tts" }));
+ * await device.pagingRouter.playText({ priority: 10, text: "Train 12 is delayed by 5 minutes", outputs: ["Platform 1"] });
+ */
+export class HttpTtsProvider implements TtsProvider {
+	public readonly name: string;
+	private options: HttpTtsProviderOptions;
+
+	/**
+	 * Creates provider for given endpoint.
+	 *
+	 * @param {HttpTtsProviderOptions} options - Endpoint options.
+	 */
+	constructor(options: HttpTtsProviderOptions) {
+		this.options = options;
+		this.name = options.name ?? "http";
+	}
+
+	public render(text: string, options: TtsOptions): Promise<TtsAudio> {
+		const url = new URL(this.options.url);
+		url.searchParams.set("text", text);
+		options.language && url.searchParams.set("language", options.language);
+		options.voice && url.searchParams.set("voice", options.voice);
+		return Promise.resolve({
+			audioSource: { url: url.toString(), headers: this.options.headers },
+			format: this.options.format ?? "mp3",
+		});
+	}
+}
+
+/**
+ * Computes stable cache key of the rendered text.
+ *
+ * @param {string} providerName - Name of the TTS provider.
+ * @param {string} text - Rendered text.
+ * @param {TtsOptions} options - Options of the rendered speech.
+ * @return {Promise<string>} Hex encoded SHA-256 of the provider name, text and options.
+ */
+export async function getTtsCacheKey(providerName: string, text: string, options: TtsOptions): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify([providerName, text, options.language ?? "", options.voice ?? ""]));
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
@@ -0,0 +1,74 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertNotEquals, assertRejects } from "jsr:@std/assert@^1.0.0";
+import { getTtsCacheKey, HttpTtsProvider, TtsAudio, TtsOptions, TtsProvider } from "./TtsProvider.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { FakeWebSocketCommunication } from "../testing/FakeWebSocketCommunication.ts";
+
+/**
+ * Provider recording rendered texts, the audio is served by a fake server.
+ */
+class RecordingTtsProvider implements TtsProvider {
+	public readonly name = "recording";
+	public readonly rendered: Array<string> = [];
+
+	public render(text: string, options: TtsOptions): Promise<TtsAudio> {
+		this.rendered.push(text);
+		return Promise.resolve({ audioSource: { url: `http://tts/${encodeURIComponent(text)}?${options.language}` }, format: "wav" });
+	}
+}
+
+Deno.test("HttpTtsProvider renders text as URL of the endpoint", async () => {
+	const provider = new HttpTtsProvider({ url: "http://192.168.1.10:8080/tts" });
+	const audio = await provider.render("Train 12 is delayed", { language: "en-US" });
+	assertEquals(audio.audioSource.url, "http://192.168.1.10:8080/tts?text=Train+12+is+delayed&language=en-US");
+	assertEquals(audio.format, "mp3");
+});
+
+Deno.test("TTS cache key differs by provider, text and options", async () => {
+	const key = await getTtsCacheKey("http", "Hello", { language: "en" });
+	assertEquals(key, await getTtsCacheKey("http", "Hello", { language: "en" }));
+	assertEquals(key.length, 64);
+	assertNotEquals(key, await getTtsCacheKey("other", "Hello", { language: "en" }));
+	assertNotEquals(key, await getTtsCacheKey("http", "Hello!", { language: "en" }));
+	assertNotEquals(key, await getTtsCacheKey("http", "Hello", { language: "en", voice: "Anna" }));
+});
+
+Deno.test("Text is rendered once and played as a remote file", async () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+	await assertRejects(() => router.startTextCall({ priority: 10, outputs: ["Hall"], text: "Hello" }), Error, "TTS provider is not set");
+	const provider = new RecordingTtsProvider();
+	router.setTtsProvider(provider);
+
+	const call = await router.startTextCall({ priority: 10, outputs: ["Hall"], text: "Hello", language: "en" });
+	webSocket.replyDone(call.actionId);
+	await call.result;
+	const repeated = await router.startTextCall({ priority: 10, outputs: ["Hall"], text: "Hello", language: "en" });
+	await router.startTextCall({ priority: 10, outputs: ["Hall"], text: "Bye", language: "en" });
+
+	assertEquals(provider.rendered, ["Hello", "Bye"]);
+	const [first, second, third] = webSocket.sentOfType("callPrepareEvent");
+	const key = await getTtsCacheKey("recording", "Hello", { language: "en" });
+	assertEquals(first.audioSource?.filename, `tts-${key}.wav`);
+	assertEquals(first.audioSource?.url, "http://tts/Hello?en");
+	assertEquals(second.actionId, repeated.actionId);
+	assertEquals(second.audioSource?.filename, first.audioSource?.filename);
+	assertNotEquals(third.audioSource?.filename, first.audioSource?.filename);
+	router.close();
+});
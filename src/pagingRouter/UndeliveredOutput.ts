@@ -0,0 +1,99 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Enum representing categories of reasons, why a call was not played in an output.
+ * Category is derived from the reason text reported by the device.
+ *
+ * - BUSY: Output is used by another call.
+ * - PREEMPTED: Call was interrupted by a call with higher priority.
+ * - OFFLINE: Output (or device providing it) is not reachable.
+ * - NOT_FOUND: Output doesn't exist.
+ * - ERROR: Output failed to play the call.
+ * - UNKNOWN: Reason couldn't be categorized, see ```detail```.
+ */
+export enum UndeliveredReason {
+	BUSY = "BUSY",
+	PREEMPTED = "PREEMPTED",
+	OFFLINE = "OFFLINE",
+	NOT_FOUND = "NOT_FOUND",
+	ERROR = "ERROR",
+	UNKNOWN = "UNKNOWN",
+}
+
+/**
+ * Output, where the call was not played.
+ *
+ * @property {string} output - Router output name.
+ * @property {UndeliveredReason} reason - Category of the reason.
+ * @property {string} detail - Reason as reported by the device.
+ */
+export interface UndeliveredOutput {
+	output: string;
+	reason: UndeliveredReason;
+	detail: string;
+}
+
+/**
+ * Defines how a call is re-delivered to outputs, where it was not played.
+ * The same audio is played again to the missed outputs only, after the call is finished with DONE state.
+ */
+export type RedeliveryPolicy = {
+	/**
+	 * Maximum number of re-deliveries.
+	 */
+	maxAttempts: number;
+	/**
+	 * Delay in milliseconds before each re-delivery. Default is 1000.
+	 */
+	delayMs?: number;
+	/**
+	 * Reasons, which are re-delivered. Default is all reasons except {@link UndeliveredReason.NOT_FOUND}.
+	 */
+	reasons?: Array<UndeliveredReason>;
+};
+
+const REASON_PATTERNS: Array<[RegExp, UndeliveredReason]> = [
+	[/busy|occupied/i, UndeliveredReason.BUSY],
+	[/priority|interrupt|preempt/i, UndeliveredReason.PREEMPTED],
+	[/offline|unreachable|disconnect|timeout|timed.?out|connection/i, UndeliveredReason.OFFLINE],
+	[/not.?found|unknown|missing|not.?exist/i, UndeliveredReason.NOT_FOUND],
+	[/error|fail/i, UndeliveredReason.ERROR],
+];
+
+/**
+ * Categorizes the undelivered reason reported by the device.
+ *
+ * @param {string} detail - Reason as reported by the device.
+ * @return {UndeliveredReason} Category of the reason.
+ */
+export function categorizeUndeliveredReason(detail: string): UndeliveredReason {
+	return REASON_PATTERNS.find(([pattern]) => pattern.test(detail))?.[1] ?? UndeliveredReason.UNKNOWN;
+}
+
+/**
+ * Converts undelivered outputs map to the structured list.
+ *
+ * @param {Map<string, string>} undeliveredOutputs - Output names and reasons reported by the device.
+ * @return {Array<UndeliveredOutput>} Undelivered outputs with categorized reasons.
+ */
+export function toUndeliveredOutputs(undeliveredOutputs: Map<string, string>): Array<UndeliveredOutput> {
+	return Array.from(undeliveredOutputs.entries()).map(([output, detail]) => ({
+		output,
+		reason: categorizeUndeliveredReason(String(detail)),
+		detail: String(detail),
+	}));
+}
@@ -0,0 +1,33 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { categorizeUndeliveredReason, toUndeliveredOutputs, UndeliveredReason } from "./UndeliveredOutput.ts";
+
+Deno.test("Undelivered reasons reported by the device are categorized", () => {
+	assertEquals(categorizeUndeliveredReason("Output is busy"), UndeliveredReason.BUSY);
+	assertEquals(categorizeUndeliveredReason("Interrupted by higher priority"), UndeliveredReason.PREEMPTED);
+	assertEquals(categorizeUndeliveredReason("Device unreachable"), UndeliveredReason.OFFLINE);
+	assertEquals(categorizeUndeliveredReason("Connection timed out"), UndeliveredReason.OFFLINE);
+	assertEquals(categorizeUndeliveredReason("Output not found"), UndeliveredReason.NOT_FOUND);
+	assertEquals(categorizeUndeliveredReason("Playback failed"), UndeliveredReason.ERROR);
+	assertEquals(categorizeUndeliveredReason("Something else"), UndeliveredReason.UNKNOWN);
+	assertEquals(categorizeUndeliveredReason(""), UndeliveredReason.UNKNOWN);
+});
+
+Deno.test("Undelivered outputs keep the reason reported by the device", () => {
+	assertEquals(toUndeliveredOutputs(new Map([["Yard", "BUSY"]])), [{ output: "Yard", reason: UndeliveredReason.BUSY, detail: "BUSY" }]);
+});
@@ -0,0 +1,225 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SystemVariables } from "../nnSystem.ts";
+import { logger, NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { UnknownOutputError } from "./CallErrors.ts";
+
+/**
+ * Registry of named zone groups, which can be used in call outputs instead of router output names.
+ * A group contains router output names and/or names of other groups. A group with a single member works as an output alias.
+ *
+ * Router output names are validated only, if the outputs configured on the device are set as known outputs
+ * (see {@link setKnownOutputs} and {@link loadFromSystemVariable}). Otherwise the check is skipped - a misspelled output
+ * or group name is sent to the device as an output name and a warning is logged once.
+ *
+ * @example
+ * device.pagingRouter.zones.setKnownOutputs(["Hall", "Lobby", "Office"]);
+ * device.pagingRouter.zones.defineGroup("Ground floor", ["Hall", "Lobby"]);
+ * device.pagingRouter.zones.defineGroup("Building", ["Ground floor", "First floor"]);
+ * device.pagingRouter.playLocalFile({ priority: 10, audioFilePath: "gong.mp3", outputs: ["Building"] });
+ */
+export class ZoneRegistry {
+	private groups: Map<string, Array<string>> = new Map();
+	private knownOutputs: Set<string> | null = null;
+	private uncheckedOutputsWarned: boolean = false;
+	private loggerConfig: NnLoggerConfig;
+
+	private constructor(loggerConfig: NnLoggerConfig) {
+		this.loggerConfig = loggerConfig;
+	}
+
+	/**
+	 * Create new instance
+	 */
+	public static getInstance(loggerConfig: NnLoggerConfig): ZoneRegistry {
+		return new ZoneRegistry(loggerConfig);
+	}
+
+	/**
+	 * Defines the group or replaces an already defined one.
+	 *
+	 * @param name - name of the group
+	 * @param members - router output names and/or names of other groups
+	 * @throws {Error} If the group contains itself (directly or through nested groups)
+	 */
+	public defineGroup(name: string, members: Array<string>) {
+		const previousMembers = this.groups.get(name);
+		this.groups.set(name, [...members]);
+		try {
+			this.expand(name, []);
+		} catch (e) {
+			if (previousMembers) {
+				this.groups.set(name, previousMembers);
+			} else {
+				this.groups.delete(name);
+			}
+			throw e;
+		}
+		this.loggerConfig.isEnabledInternal() && logger.debug("Zone group '{}' defined with members: {}", name, members.join(", "));
+	}
+
+	/**
+	 * Removes the group.
+	 *
+	 * @param name - name of the group
+	 * @return true, if the group was defined
+	 */
+	public removeGroup(name: string): boolean {
+		return this.groups.delete(name);
+	}
+
+	/**
+	 * Returns direct members of the group.
+	 *
+	 * @param name - name of the group
+	 * @return members of the group or undefined, if the group is not defined
+	 */
+	public getGroup(name: string): Array<string> | undefined {
+		const members = this.groups.get(name);
+		return members ? [...members] : undefined;
+	}
+
+	/**
+	 * Returns names of all defined groups.
+	 */
+	public getGroupNames(): Array<string> {
+		return Array.from(this.groups.keys());
+	}
+
+	/**
+	 * Sets router output names configured on the device. Once set, calls with any other output name are refused
+	 * with {@link UnknownOutputError} before they are sent to the device.
+	 *
+	 * @param outputs - router output names or null to disable the check
+	 */
+	public setKnownOutputs(outputs: Array<string> | null) {
+		this.knownOutputs = outputs ? new Set(outputs) : null;
+	}
+
+	/**
+	 * Returns router output names set by {@link setKnownOutputs}, or null if they are not set.
+	 */
+	public getKnownOutputs(): Array<string> | null {
+		return this.knownOutputs ? Array.from(this.knownOutputs) : null;
+	}
+
+	/**
+	 * Loads groups from the system variable. Its value has to be a JSON object with group names as keys
+	 * and arrays of members as values, e.g. ```{"Ground floor": ["Hall", "Lobby"], "Building": ["Ground floor", "Office"]}```.
+	 * Groups already defined with the same name are replaced. Call it again to reload the groups after the variable is changed.
+	 * If ```outputsVariableName``` is set, known outputs are loaded from that variable as well. Its value has to be a JSON array
+	 * of router output names, e.g. ```["Hall", "Lobby", "Office"]```, see {@link setKnownOutputs}.
+	 *
+	 * @example
+	 * device.pagingRouter.zones.loadFromSystemVariable(device.system.variables, "zoneGroups", "routerOutputs");
+	 *
+	 * @param variables - system variables of the device, see {@link NnSystemDefinition.variables}
+	 * @param variableName - name of the system variable with groups
+	 * @param outputsVariableName - name of the system variable with router output names
+	 * @return names of loaded groups, empty if the variable doesn't exist
+	 * @throws {Error} If the variable value is not a valid group definition or list of outputs
+	 */
+	public loadFromSystemVariable(variables: SystemVariables, variableName: string, outputsVariableName?: string): Array<string> {
+		if (outputsVariableName) {
+			this.loadKnownOutputs(variables, outputsVariableName);
+		}
+		const value = variables.get(variableName);
+		if (value == null || value.trim() === "") {
+			this.loggerConfig.isEnabledInternal() && logger.warn("System variable '{}' with zone groups doesn't exist", variableName);
+			return [];
+		}
+		let definition: unknown;
+		try {
+			definition = JSON.parse(value);
+		} catch (e) {
+			throw new Error(`System variable '${variableName}' doesn't contain valid JSON: ${String(e)}`);
+		}
+		if (definition == null || typeof definition !== "object" || Array.isArray(definition)) {
+			throw new Error(`System variable '${variableName}' has to contain JSON object with zone groups`);
+		}
+		const groups = Object.entries(definition as { [name: string]: unknown });
+		groups.forEach(([name, members]) => {
+			if (!Array.isArray(members) || members.some(member => typeof member !== "string")) {
+				throw new Error(`Zone group '${name}' in system variable '${variableName}' has to be an array of names`);
+			}
+		});
+		const previousGroups = new Map(this.groups);
+		groups.forEach(([name, members]) => this.groups.set(name, [...(members as Array<string>)]));
+		try {
+			groups.forEach(([name]) => this.expand(name, []));
+		} catch (e) {
+			this.groups = previousGroups;
+			throw e;
+		}
+		this.loggerConfig.isEnabledInternal() && logger.debug("Zone groups loaded from system variable '{}'", variableName);
+		return groups.map(([name]) => name);
+	}
+
+	/**
+	 * Resolves group names to router output names. Duplicate outputs are removed, order of the first occurrence is kept.
+	 *
+	 * @param outputs - router output names and/or group names
+	 * @return router output names
+	 * Names are not validated, if known outputs are not set.
+	 * @throws {UnknownOutputError} If known outputs are set and some of the names is neither a group nor a known output
+	 */
+	public resolve(outputs: Array<string>): Array<string> {
+		const resolved: Set<string> = new Set();
+		outputs.forEach(name => this.expand(name, []).forEach(output => resolved.add(output)));
+		if (!this.knownOutputs && !this.uncheckedOutputsWarned) {
+			this.uncheckedOutputsWarned = true;
+			logger.warn("Known router outputs are not set - output names of calls are not checked, see ZoneRegistry.setKnownOutputs");
+		}
+		if (this.knownOutputs) {
+			const unknownOutputs = Array.from(resolved).filter(output => !this.knownOutputs?.has(output));
+			if (unknownOutputs.length > 0) {
+				throw new UnknownOutputError(unknownOutputs);
+			}
+		}
+		return Array.from(resolved);
+	}
+
+	private loadKnownOutputs(variables: SystemVariables, variableName: string) {
+		const value = variables.get(variableName);
+		if (value == null || value.trim() === "") {
+			this.loggerConfig.isEnabledInternal() && logger.warn("System variable '{}' with router outputs doesn't exist", variableName);
+			return;
+		}
+		let outputs: unknown;
+		try {
+			outputs = JSON.parse(value);
+		} catch (e) {
+			throw new Error(`System variable '${variableName}' doesn't contain valid JSON: ${String(e)}`);
+		}
+		if (!Array.isArray(outputs) || outputs.some(output => typeof output !== "string")) {
+			throw new Error(`System variable '${variableName}' has to contain JSON array of router output names`);
+		}
+		this.setKnownOutputs(outputs);
+		this.loggerConfig.isEnabledInternal() && logger.debug("Known router outputs loaded from system variable '{}'", variableName);
+	}
+
+	private expand(name: string, path: Array<string>): Array<string> {
+		const members = this.groups.get(name);
+		if (!members) {
+			return [name];
+		}
+		if (path.includes(name)) {
+			throw new Error(`Zone group '${name}' contains itself: ${[...path, name].join(" -> ")}`);
+		}
+		return members.flatMap(member => this.expand(member, [...path, name]));
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { ZoneRegistry } from "./ZoneRegistry.ts";
+import { UnknownOutputError } from "./CallErrors.ts";
+import { NnLoggerConfig } from "../utils/LoggerUtil.ts";
+import { SystemVariables } from "../nnSystem.ts";
+import { NnPagingRouterDefinition } from "../nnPagingRouter.ts";
+import { FakeWebSocketCommunication } from "../testing/FakeWebSocketCommunication.ts";
+
+function systemVariables(values: { [name: string]: string }): SystemVariables {
+	return { get: name => values[name] };
+}
+
+Deno.test("ZoneRegistry resolves nested groups and aliases to unique outputs", () => {
+	const zones = ZoneRegistry.getInstance(NnLoggerConfig.getInstance());
+	zones.defineGroup("Ground floor", ["Hall", "Lobby"]);
+	zones.defineGroup("Building", ["Ground floor", "Office", "Hall"]);
+	zones.defineGroup("Reception", ["Lobby"]);
+
+	assertEquals(zones.resolve(["Building", "Reception", "Shop"]), ["Hall", "Lobby", "Office", "Shop"]);
+	assertThrows(() => zones.defineGroup("Ground floor", ["Building"]), Error, "contains itself");
+	assertEquals(zones.getGroup("Ground floor"), ["Hall", "Lobby"]);
+});
+
+Deno.test("ZoneRegistry refuses unknown outputs only if known outputs are set", () => {
+	const zones = ZoneRegistry.getInstance(NnLoggerConfig.getInstance());
+	zones.defineGroup("Ground floor", ["Hall", "Loby"]);
+	assertEquals(zones.resolve(["Ground floor"]), ["Hall", "Loby"]);
+
+	zones.setKnownOutputs(["Hall", "Lobby"]);
+	const error = assertThrows(() => zones.resolve(["Ground floor"]), UnknownOutputError);
+	assertEquals((error as UnknownOutputError).outputs, ["Loby"]);
+});
+
+Deno.test("ZoneRegistry loads groups and known outputs from system variables", () => {
+	const zones = ZoneRegistry.getInstance(NnLoggerConfig.getInstance());
+	const variables = systemVariables({
+		zoneGroups: JSON.stringify({ "Ground floor": ["Hall", "Lobby"], Building: ["Ground floor", "Office"] }),
+		routerOutputs: JSON.stringify(["Hall", "Lobby", "Office"]),
+		invalidOutputs: JSON.stringify({ Hall: 1 }),
+	});
+
+	assertEquals(zones.loadFromSystemVariable(variables, "zoneGroups", "routerOutputs"), ["Ground floor", "Building"]);
+	assertEquals(zones.getKnownOutputs(), ["Hall", "Lobby", "Office"]);
+	assertEquals(zones.resolve(["Building"]), ["Hall", "Lobby", "Office"]);
+	assertThrows(() => zones.resolve(["Shop"]), UnknownOutputError);
+	assertThrows(() => zones.loadFromSystemVariable(variables, "zoneGroups", "invalidOutputs"), Error, "JSON array");
+	assertEquals(zones.loadFromSystemVariable(variables, "missing"), []);
+});
+
+Deno.test("Paging router sends calls to outputs of zone groups", () => {
+	const webSocket = new FakeWebSocketCommunication();
+	const router = NnPagingRouterDefinition.getInstance(webSocket.asWebSocket(), NnLoggerConfig.getInstance());
+	router.zones.setKnownOutputs(["Hall", "Lobby", "Office"]);
+	router.zones.defineGroup("Ground floor", ["Hall", "Lobby"]);
+
+	const call = router.startLocalFileCall({ priority: 10, outputs: ["Ground floor", "Office"], audioFilePath: "gong.mp3" });
+	assertEquals(webSocket.sentOfType("callPrepareEvent", call.actionId)[0].outputs, ["Hall", "Lobby", "Office"]);
+	assertThrows(() => router.startLocalFileCall({ priority: 10, outputs: ["Shop"], audioFilePath: "gong.mp3" }), UnknownOutputError);
+	assertEquals(webSocket.sentOfType("callPrepareEvent").length, 1);
+	router.close();
+});
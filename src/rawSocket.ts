@@ -14,13 +14,14 @@
  * limitations under the License.
  */
 
-import { WebSocketCommunication } from "./communication/WebSocketCommunication.ts";
+import { EventHandlerSubscription, WebSocketCommunication } from "./communication/WebSocketCommunication.ts";
 import { NnLoggerConfig } from "./utils/LoggerUtil.ts";
 import { Consumer } from "./utils/FunctionalInterfaces.ts";
 import { IEvent } from "./events/IEvent.ts";
 import { INnounceClientRequestEvent } from "./events/INnounceClientRequestEvent.ts";
 import { INnounceClientResultEvent } from "./events/INnounceClientResultEvent.ts";
 import { ConnectionOptions } from "./nnounceScriptingApi.ts";
+import { SendOptions } from "./communication/DisconnectBuffer.ts";
 import { API_KEY, HOSTNAME } from "./communication/getUrlAddress.ts";
 
 export class RawSocket {
@@ -43,16 +44,31 @@ export class RawSocket {
 		const loggerConfig = NnLoggerConfig.getInstance();
 		loggerConfig.setEnabledInternal(connectionOptions?.enableInternalLogging ?? false);
 
-		const webSocket = new WebSocketCommunication(hostname, apiKey, loggerConfig);
+		const webSocket = new WebSocketCommunication(
+			hostname,
+			apiKey,
+			loggerConfig,
+			connectionOptions?.reconnect,
+			connectionOptions?.disconnectBuffer
+		);
 		return new RawSocket(webSocket);
 	}
 
-	public registerEventHandler(eventType: string, eventHandler: Consumer<IEvent>) {
-		this.webSocket.addEventHandler(eventType, eventHandler);
+	public registerEventHandler(eventType: string, eventHandler: Consumer<IEvent>): EventHandlerSubscription {
+		return this.webSocket.addEventHandler(eventType, eventHandler);
 	}
 
-	public sendEvent(event: IEvent) {
-		this.webSocket.sendEvent(event);
+	public sendEvent(event: IEvent, sendOptions?: SendOptions) {
+		this.webSocket.sendEvent(event, false, sendOptions);
+	}
+
+	public close(): Promise<void> {
+		return this.webSocket.close();
+	}
+
+	// @ts-ignore Deno - couldn't generate typings file
+	public [Symbol.asyncDispose](): Promise<void> {
+		return this.close();
 	}
 
 	public async sendEventWithResponse<REQUEST extends INnounceClientRequestEvent, RESPONSE extends INnounceClientResultEvent>(
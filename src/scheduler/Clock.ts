@@ -0,0 +1,131 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Callback } from "../utils/FunctionalInterfaces.ts";
+
+/**
+ * Source of current time and timers used by the scheduler.
+ * Replace it with {@link FakeClock} to test schedules without waiting for the real time, see {@link ConnectionOptions.clock}.
+ */
+export interface Clock {
+	/**
+	 * Returns current time in milliseconds since the epoch.
+	 */
+	now: () => number;
+	/**
+	 * Calls the callback after given delay. Returns timer ID.
+	 */
+	setTimeout: (callback: Callback, delayMs: number) => number;
+	/**
+	 * Cancels the timer with given ID.
+	 */
+	clearTimeout: (timerId: number) => void;
+}
+
+/**
+ * Clock backed by the system time and timers.
+ */
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback: Callback, delayMs: number) => setTimeout(callback, delayMs),
+	clearTimeout: (timerId: number) => clearTimeout(timerId),
+};
+
+/**
+ * Timer registered in the {@link FakeClock}.
+ */
+type FakeTimer = {
+	id: number;
+	dueAt: number;
+	callback: Callback;
+};
+
+/**
+ * Manually driven clock for unit tests. Time moves only when {@link FakeClock.advance} or {@link FakeClock.setTime} is called,
+ * timers due in the meantime are fired in order.
+ *
+ * @example
+ * const clock = new FakeClock(Date.parse("2025-01-01T07:59:00Z"));
+ * const device = connectDevice("localhost", null, { clock });
+ * device.scheduler.schedule({ trigger: { cron: "0 8 * * *" }, timeZone: "UTC", action: run => console.log(run) });
+ * clock.advance(60000); // action is called
+ */
+export class FakeClock implements Clock {
+	private currentTime: number;
+	private timers: Array<FakeTimer> = [];
+	private lastTimerId: number = 0;
+
+	/**
+	 * Creates a clock starting at given time.
+	 *
+	 * @param {number} startTime - Initial time in milliseconds since the epoch. Default is 0.
+	 */
+	constructor(startTime: number = 0) {
+		this.currentTime = startTime;
+	}
+
+	public now(): number {
+		return this.currentTime;
+	}
+
+	public setTimeout(callback: Callback, delayMs: number): number {
+		this.lastTimerId++;
+		this.timers.push({ id: this.lastTimerId, dueAt: this.currentTime + Math.max(0, delayMs), callback });
+		return this.lastTimerId;
+	}
+
+	public clearTimeout(timerId: number) {
+		this.timers = this.timers.filter(timer => timer.id !== timerId);
+	}
+
+	/**
+	 * Moves the time forward and fires all timers due in the meantime.
+	 *
+	 * @param {number} durationMs - Duration in milliseconds.
+	 */
+	public advance(durationMs: number) {
+		this.setTime(this.currentTime + durationMs);
+	}
+
+	/**
+	 * Moves the time to given time and fires all timers due in the meantime.
+	 *
+	 * @param {number} time - New time in milliseconds since the epoch. It can't be lower than the current time.
+	 */
+	public setTime(time: number) {
+		if (time < this.currentTime) {
+			throw new Error("Fake clock can't go back in time");
+		}
+		while (true) {
+			const dueTimers = this.timers.filter(timer => timer.dueAt <= time).sort((a, b) => a.dueAt - b.dueAt || a.id - b.id);
+			if (dueTimers.length == 0) {
+				break;
+			}
+			const timer = dueTimers[0];
+			this.timers.splice(this.timers.indexOf(timer), 1);
+			this.currentTime = timer.dueAt;
+			timer.callback();
+		}
+		this.currentTime = time;
+	}
+
+	/**
+	 * Returns number of timers, which were not fired yet.
+	 */
+	public pendingTimers(): number {
+		return this.timers.length;
+	}
+}
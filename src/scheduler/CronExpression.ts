@@ -0,0 +1,204 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fromWallClock, toWallClock } from "./ZonedTime.ts";
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_OF_WEEK_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const MACROS: { [macro: string]: string } = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+const MINUTE_MS = 60000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+/**
+ * Limit of searched days for the next occurrence (e.g. "0 0 30 2 *" never matches).
+ */
+const MAX_SEARCHED_DAYS = 366 * 5;
+
+/**
+ * Parsed cron expression with 5 fields: ```minute hour day-of-month month day-of-week```.
+ *
+ * Supported syntax:
+ * - ```*``` - any value
+ * - ```5``` - single value
+ * - ```1-5``` - range
+ * - ```1,15,30``` - list
+ * - ```0/15```, ```0-30/10``` - step
+ * - month names ```JAN```-```DEC``` and day names ```SUN```-```SAT``` (Sunday is 0 or 7)
+ * - macros ```@yearly```, ```@monthly```, ```@weekly```, ```@daily```, ```@hourly```
+ *
+ * If both day-of-month and day-of-week are restricted, the expression matches when either of them matches.
+ */
+export class CronExpression {
+	private readonly expression: string;
+	private readonly minutes: Set<number>;
+	private readonly hours: Set<number>;
+	private readonly daysOfMonth: Set<number>;
+	private readonly months: Set<number>;
+	private readonly daysOfWeek: Set<number>;
+	private readonly daysOfMonthRestricted: boolean;
+	private readonly daysOfWeekRestricted: boolean;
+
+	private constructor(expression: string, fields: Array<string>) {
+		this.expression = expression;
+		this.minutes = parseField(fields[0], 0, 59);
+		this.hours = parseField(fields[1], 0, 23);
+		this.daysOfMonth = parseField(fields[2], 1, 31);
+		this.months = parseField(fields[3], 1, 12, MONTH_NAMES);
+		this.daysOfWeek = parseField(fields[4], 0, 7, DAY_OF_WEEK_NAMES);
+		if (this.daysOfWeek.delete(7)) {
+			this.daysOfWeek.add(0);
+		}
+		this.daysOfMonthRestricted = fields[2] !== "*" && fields[2] !== "?";
+		this.daysOfWeekRestricted = fields[4] !== "*" && fields[4] !== "?";
+	}
+
+	/**
+	 * Parses the cron expression.
+	 *
+	 * @param {string} expression - Cron expression, e.g. ```"30 7 * * MON-FRI"```.
+	 * @return {CronExpression} Parsed expression.
+	 * @throws {Error} If the expression is not valid.
+	 */
+	public static parse(expression: string): CronExpression {
+		const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+		const fields = normalized.split(/\s+/);
+		if (fields.length !== 5) {
+			throw new Error(`Cron expression '${expression}' must have 5 fields: minute hour day-of-month month day-of-week`);
+		}
+		try {
+			return new CronExpression(expression, fields);
+		} catch (e) {
+			throw new Error(`Cron expression '${expression}' is not valid: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	/**
+	 * Returns the original expression.
+	 */
+	public toString(): string {
+		return this.expression;
+	}
+
+	/**
+	 * Finds the first occurrence after given instant.
+	 *
+	 * @param {number} after - Time in milliseconds since the epoch, the occurrence must be strictly after it.
+	 * @param {string} timeZone - Time zone, in which the expression is evaluated.
+	 * @return {number | null} Time of the next occurrence in milliseconds since the epoch, or null if there is none.
+	 */
+	public next(after: number, timeZone: string): number | null {
+		// start with the next whole minute in wall-clock time
+		let wall = Math.floor(toWallClock(after, timeZone) / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+		const limit = wall + MAX_SEARCHED_DAYS * DAY_MS;
+
+		while (wall < limit) {
+			const date = new Date(wall);
+			if (!this.months.has(date.getUTCMonth() + 1)) {
+				wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+				continue;
+			}
+			if (!this.matchesDay(date)) {
+				wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+				continue;
+			}
+			if (!this.hours.has(date.getUTCHours())) {
+				wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours() + 1);
+				continue;
+			}
+			if (!this.minutes.has(date.getUTCMinutes())) {
+				wall += MINUTE_MS;
+				continue;
+			}
+
+			const instant = fromWallClock(wall, timeZone);
+			// skip wall-clock times, which don't exist (DST start) or were already passed (DST end)
+			if (instant != null && instant > after) {
+				return instant;
+			}
+			wall += MINUTE_MS;
+		}
+		return null;
+	}
+
+	private matchesDay(date: Date): boolean {
+		const dayOfMonthMatch = this.daysOfMonth.has(date.getUTCDate());
+		const dayOfWeekMatch = this.daysOfWeek.has(date.getUTCDay());
+		if (this.daysOfMonthRestricted && this.daysOfWeekRestricted) {
+			return dayOfMonthMatch || dayOfWeekMatch;
+		}
+		return dayOfMonthMatch && dayOfWeekMatch;
+	}
+}
+
+/**
+ * Parses single cron field into set of allowed values.
+ */
+function parseField(field: string, min: number, max: number, names?: Array<string>): Set<number> {
+	const values = new Set<number>();
+	field.split(",").forEach(part => {
+		const [range, stepValue] = part.split("/");
+		const step = stepValue === undefined ? 1 : Number(stepValue);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`invalid step '${stepValue}'`);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === "*" || range === "?") {
+			start = min;
+			end = max;
+		} else if (range.includes("-")) {
+			const [startValue, endValue] = range.split("-");
+			start = parseValue(startValue, min, names);
+			end = parseValue(endValue, min, names);
+		} else {
+			start = parseValue(range, min, names);
+			end = stepValue === undefined ? start : max;
+		}
+		if (start < min || end > max || start > end) {
+			throw new Error(`value '${part}' is out of range ${min}-${max}`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	});
+	return values;
+}
+
+/**
+ * Parses single numeric or named value of cron field.
+ */
+function parseValue(value: string, min: number, names?: Array<string>): number {
+	const nameIndex = names?.indexOf(value.toUpperCase()) ?? -1;
+	if (nameIndex >= 0) {
+		return nameIndex + min;
+	}
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`invalid value '${value}'`);
+	}
+	return Number(value);
+}
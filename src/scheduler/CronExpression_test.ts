@@ -0,0 +1,71 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { CronExpression } from "./CronExpression.ts";
+
+const next = (expression: string, after: string, timeZone: string = "UTC") => {
+	const instant = CronExpression.parse(expression).next(Date.parse(after), timeZone);
+	return instant === null ? null : new Date(instant).toISOString();
+};
+
+Deno.test("CronExpression finds next occurrence strictly after given time", () => {
+	assertEquals(next("30 7 * * *", "2025-01-01T07:29:59Z"), "2025-01-01T07:30:00.000Z");
+	assertEquals(next("30 7 * * *", "2025-01-01T07:30:00Z"), "2025-01-02T07:30:00.000Z");
+	assertEquals(next("*/15 * * * *", "2025-01-01T10:16:00Z"), "2025-01-01T10:30:00.000Z");
+});
+
+Deno.test("CronExpression supports names, lists, ranges and macros", () => {
+	// 2025-01-03 is Friday
+	assertEquals(next("0 8 * * MON-FRI", "2025-01-03T09:00:00Z"), "2025-01-06T08:00:00.000Z");
+	assertEquals(next("0 8 1,15 FEB *", "2025-01-20T00:00:00Z"), "2025-02-01T08:00:00.000Z");
+	assertEquals(next("0 0 * * 7", "2025-01-01T00:00:00Z"), "2025-01-05T00:00:00.000Z");
+	assertEquals(next("@monthly", "2025-01-15T00:00:00Z"), "2025-02-01T00:00:00.000Z");
+});
+
+Deno.test("CronExpression matches either day-of-month or day-of-week, if both are restricted", () => {
+	// 2025-01-06 is Monday
+	assertEquals(next("0 12 10 * MON", "2025-01-01T00:00:00Z"), "2025-01-06T12:00:00.000Z");
+	assertEquals(next("0 12 10 * MON", "2025-01-06T12:00:00Z"), "2025-01-10T12:00:00.000Z");
+});
+
+Deno.test("CronExpression is evaluated in given time zone", () => {
+	assertEquals(next("0 8 * * *", "2025-01-01T00:00:00Z", "Europe/Prague"), "2025-01-01T07:00:00.000Z");
+	assertEquals(next("0 8 * * *", "2025-07-01T00:00:00Z", "Europe/Prague"), "2025-07-01T06:00:00.000Z");
+});
+
+Deno.test("CronExpression skips wall-clock time, which doesn't exist on DST start", () => {
+	// 2025-03-30 02:00 CET is moved to 03:00 CEST in Prague
+	assertEquals(next("30 2 * * *", "2025-03-29T12:00:00Z", "Europe/Prague"), "2025-03-31T00:30:00.000Z");
+	assertEquals(next("30 3 * * *", "2025-03-29T12:00:00Z", "Europe/Prague"), "2025-03-30T01:30:00.000Z");
+});
+
+Deno.test("CronExpression runs wall-clock time repeated on DST end only once", () => {
+	// 2025-10-26 03:00 CEST is moved back to 02:00 CET in Prague, 02:30 exists twice
+	assertEquals(next("30 2 * * *", "2025-10-25T12:00:00Z", "Europe/Prague"), "2025-10-26T00:30:00.000Z");
+	assertEquals(next("30 2 * * *", "2025-10-26T00:30:00Z", "Europe/Prague"), "2025-10-27T01:30:00.000Z");
+});
+
+Deno.test("CronExpression returns null, if the expression never matches", () => {
+	assertEquals(next("0 0 30 2 *", "2025-01-01T00:00:00Z"), null);
+});
+
+Deno.test("CronExpression rejects invalid expressions", () => {
+	assertThrows(() => CronExpression.parse("0 8 * *"), Error, "must have 5 fields");
+	assertThrows(() => CronExpression.parse("60 8 * * *"), Error, "is not valid");
+	assertThrows(() => CronExpression.parse("0 8 * * MON-XYZ"), Error, "is not valid");
+	assertThrows(() => CronExpression.parse("*/0 8 * * *"), Error, "is not valid");
+});
@@ -0,0 +1,85 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Storage of the last run time of schedules.
+ * It allows the scheduler to detect runs missed while the script was not running.
+ */
+export interface ScheduleStore {
+	/**
+	 * Returns time of the last run of the schedule in milliseconds since the epoch, or undefined if it never ran.
+	 */
+	getLastRun: (scheduleId: string) => number | undefined;
+	/**
+	 * Stores time of the last run of the schedule.
+	 */
+	setLastRun: (scheduleId: string, lastRun: number) => void;
+}
+
+/**
+ * Store keeping last runs in memory only. Missed runs are detected while the script is running only.
+ */
+export class MemoryScheduleStore implements ScheduleStore {
+	private lastRuns: Map<string, number> = new Map();
+
+	public getLastRun(scheduleId: string): number | undefined {
+		return this.lastRuns.get(scheduleId);
+	}
+
+	public setLastRun(scheduleId: string, lastRun: number) {
+		this.lastRuns.set(scheduleId, lastRun);
+	}
+}
+
+/**
+ * Store keeping last runs in a JSON file, so they survive script restart.
+ * Use stable schedule IDs together with this store.
+ */
+export class FileScheduleStore implements ScheduleStore {
+	private filename: string;
+	private lastRuns: Map<string, number>;
+
+	/**
+	 * Creates store backed by given file. The file is created on the first write.
+	 *
+	 * @param {string} filename - Path of the JSON file.
+	 */
+	constructor(filename: string) {
+		this.filename = filename;
+		this.lastRuns = this.load();
+	}
+
+	public getLastRun(scheduleId: string): number | undefined {
+		return this.lastRuns.get(scheduleId);
+	}
+
+	public setLastRun(scheduleId: string, lastRun: number) {
+		this.lastRuns.set(scheduleId, lastRun);
+		// @ts-ignore Deno - couldn't generate typings file
+		Deno.writeTextFileSync(this.filename, JSON.stringify(Object.fromEntries(this.lastRuns)));
+	}
+
+	private load(): Map<string, number> {
+		try {
+			// @ts-ignore Deno - couldn't generate typings file
+			const content: string = Deno.readTextFileSync(this.filename);
+			return new Map(Object.entries(JSON.parse(content) as { [scheduleId: string]: number }));
+		} catch (e) {
+			// file doesn't exist yet or is corrupted - start from scratch
+			return new Map();
+		}
+	}
+}
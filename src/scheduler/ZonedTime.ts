@@ -0,0 +1,108 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Cache of formatters per time zone, creating them is expensive.
+ */
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+const DAY_MS = 86400000;
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Returns time zone of the runtime, used when no time zone is configured.
+ */
+export function getDefaultTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
+}
+
+/**
+ * Checks, that given IANA time zone name (e.g. "Europe/Prague") is supported.
+ *
+ * @param {string} timeZone - Time zone name.
+ * @return {boolean} True, if the time zone is supported.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Converts an instant to the wall-clock time in given time zone.
+ * Wall-clock time is represented as milliseconds, which read with UTC getters (e.g. ```getUTCHours()```) give the local fields.
+ *
+ * @param {number} instant - Time in milliseconds since the epoch.
+ * @param {string} timeZone - Time zone name.
+ * @return {number} Wall-clock time (seconds precision).
+ */
+export function toWallClock(instant: number, timeZone: string): number {
+	const fields: { [type: string]: number } = {};
+	getFormatter(timeZone)
+		.formatToParts(new Date(instant))
+		.forEach(part => {
+			if (part.type !== "literal") {
+				fields[part.type] = Number(part.value);
+			}
+		});
+	return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
+
+/**
+ * Converts the wall-clock time in given time zone to an instant.
+ * If the wall-clock time exists twice (DST end), the earlier instant is returned.
+ *
+ * @param {number} wallClock - Wall-clock time, see {@link toWallClock}.
+ * @param {string} timeZone - Time zone name.
+ * @return {number | null} Time in milliseconds since the epoch, or null if the wall-clock time doesn't exist (DST start).
+ */
+export function fromWallClock(wallClock: number, timeZone: string): number | null {
+	const offsetBefore = toWallClock(wallClock - DAY_MS, timeZone) - (wallClock - DAY_MS);
+	const offsetAfter = toWallClock(wallClock + DAY_MS, timeZone) - (wallClock + DAY_MS);
+	const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].filter(instant => toWallClock(instant, timeZone) === wallClock);
+	return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * Formats the date of an instant in given time zone as ```YYYY-MM-DD```.
+ *
+ * @param {number} instant - Time in milliseconds since the epoch.
+ * @param {string} timeZone - Time zone name.
+ * @return {string} Local date.
+ */
+export function toLocalDate(instant: number, timeZone: string): string {
+	return new Date(toWallClock(instant, timeZone)).toISOString().substring(0, 10);
+}
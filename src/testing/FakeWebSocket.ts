@@ -0,0 +1,105 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Replacement of the global WebSocket for tests of WebSocketCommunication - sockets are opened, closed by the device
+ * and receive messages only when the test says so.
+ *
+ * @example
+ * const restore = FakeWebSocket.install();
+ * try {
+ *     const communication = new WebSocketCommunication("device", null, NnLoggerConfig.getInstance());
+ *     FakeWebSocket.last().open();
+ * } finally {
+ *     restore();
+ * }
+ */
+export class FakeWebSocket extends EventTarget {
+	public static readonly CONNECTING = 0;
+	public static readonly OPEN = 1;
+	public static readonly CLOSING = 2;
+	public static readonly CLOSED = 3;
+	public static instances: Array<FakeWebSocket> = [];
+
+	public readonly url: string;
+	public readyState: number = FakeWebSocket.CONNECTING;
+	public readonly sent: Array<string> = [];
+
+	constructor(url: string) {
+		super();
+		this.url = url;
+		FakeWebSocket.instances.push(this);
+	}
+
+	/**
+	 * Replaces the global WebSocket by this fake.
+	 * @return callback restoring the original global WebSocket
+	 */
+	public static install(): () => void {
+		const global = globalThis as { WebSocket?: unknown };
+		const original = global.WebSocket;
+		FakeWebSocket.instances = [];
+		global.WebSocket = FakeWebSocket;
+		return () => {
+			global.WebSocket = original;
+		};
+	}
+
+	/**
+	 * @return the last created socket
+	 * @throws {Error} If no socket was created
+	 */
+	public static last(): FakeWebSocket {
+		const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+		if (!socket) {
+			throw new Error("No socket was created");
+		}
+		return socket;
+	}
+
+	public send(data: string) {
+		this.sent.push(data);
+	}
+
+	public close() {
+		if (this.readyState !== FakeWebSocket.CLOSED) {
+			this.readyState = FakeWebSocket.CLOSED;
+			this.dispatchEvent(new Event("close"));
+		}
+	}
+
+	/**
+	 * @return types of the sent events
+	 */
+	public sentTypes(): Array<string> {
+		return this.sent.map(json => JSON.parse(json).type);
+	}
+
+	/**
+	 * Opens the socket as if the device accepted the connection.
+	 */
+	public open() {
+		this.readyState = FakeWebSocket.OPEN;
+		this.dispatchEvent(new Event("open"));
+	}
+
+	/**
+	 * Passes the event to the socket, as if it was received from the device.
+	 */
+	public receive(event: object) {
+		this.dispatchEvent(new MessageEvent("message", { data: JSON.stringify(event) }));
+	}
+}
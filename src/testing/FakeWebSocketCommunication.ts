@@ -0,0 +1,175 @@
+/**
+ * Copyright 2025 Simpleway Europe a.s.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventHandlerSubscription, WebSocketCommunication } from "../communication/WebSocketCommunication.ts";
+import { ConnectionState, ConnectionStateEvent, ConnectionSubscription, DisconnectReason } from "../communication/ConnectionState.ts";
+import { IEvent } from "../events/IEvent.ts";
+import { CallResultStatus } from "../events/incoming/CallResultEvent.ts";
+import { CallProgressStatus } from "../events/incoming/CallProgressEvent.ts";
+import { Consumer } from "../utils/FunctionalInterfaces.ts";
+
+/**
+ * Event sent by the SDK to the fake WebSocket.
+ */
+export interface SentEvent {
+	type: string;
+	actionId?: string;
+	priority?: number;
+	outputs?: Array<string>;
+	audioSource?: { sourceType: string; path?: string; url?: string; filename?: string; input?: string };
+}
+
+/**
+ * WebSocketCommunication replacement for tests - it records sent events and replays events of the device
+ * (e.g. call prepare results and call results) to the registered handlers, without any socket.
+ */
+export class FakeWebSocketCommunication {
+	public readonly sent: Array<SentEvent> = [];
+	private handlers: Map<string, Array<Consumer<IEvent>>> = new Map();
+	private connectionStateListeners: Array<Consumer<ConnectionStateEvent>> = [];
+	private connectionState: ConnectionState = ConnectionState.OPEN;
+
+	/**
+	 * @return this fake typed as WebSocketCommunication, e.g. for NnPagingRouterDefinition.getInstance
+	 */
+	public asWebSocket(): WebSocketCommunication {
+		return this as unknown as WebSocketCommunication;
+	}
+
+	public sendEvent(message: object) {
+		if (this.connectionState === ConnectionState.CLOSED) {
+			throw new Error("WebSocket is closed");
+		}
+		this.sent.push(JSON.parse(JSON.stringify(message)));
+	}
+
+	public addEventHandler(type: string, onEvent: Consumer<IEvent>): EventHandlerSubscription {
+		this.handlers.set(type, [...(this.handlers.get(type) ?? []), onEvent]);
+		return {
+			removeListener: () =>
+				this.handlers.set(
+					type,
+					(this.handlers.get(type) ?? []).filter(handler => handler !== onEvent)
+				),
+		};
+	}
+
+	public onConnectionStateChange(listener: Consumer<ConnectionStateEvent>): ConnectionSubscription {
+		this.connectionStateListeners.push(listener);
+		return {
+			removeListener: () => {
+				this.connectionStateListeners = this.connectionStateListeners.filter(l => l !== listener);
+			},
+		};
+	}
+
+	public getConnectionState(): ConnectionState {
+		return this.connectionState;
+	}
+
+	public connected(): boolean {
+		return this.connectionState === ConnectionState.OPEN;
+	}
+
+	public close(): Promise<void> {
+		this.setConnectionState(ConnectionState.CLOSED);
+		this.handlers.clear();
+		this.connectionStateListeners = [];
+		return Promise.resolve();
+	}
+
+	/**
+	 * Changes the connection state and notifies the listeners, e.g. RECONNECTING to simulate a lost connection.
+	 */
+	public setConnectionState(state: ConnectionState, reason?: DisconnectReason) {
+		const event: ConnectionStateEvent = { state, previousState: this.connectionState, reason, timestamp: new Date() };
+		this.connectionState = state;
+		[...this.connectionStateListeners].forEach(listener => listener(event));
+	}
+
+	/**
+	 * Passes the event to the handlers registered for its type, as if it was received from the device.
+	 */
+	public receive(event: IEvent & { [key: string]: unknown }) {
+		[...(this.handlers.get(event.type) ?? [])].forEach(handler => handler(event));
+	}
+
+	/**
+	 * @return sent events of the type, optionally only for the given call
+	 */
+	public sentOfType(type: string, actionId?: string): Array<SentEvent> {
+		return this.sent.filter(event => event.type === type && (actionId === undefined || event.actionId === actionId));
+	}
+
+	/**
+	 * @return actionIds of the prepared calls in the order they were sent
+	 */
+	public preparedActionIds(): Array<string> {
+		return this.sentOfType("callPrepareEvent").map(event => event.actionId as string);
+	}
+
+	/**
+	 * @return actionId of the last prepared call
+	 * @throws {Error} If no call was prepared
+	 */
+	public lastPreparedActionId(): string {
+		const actionIds = this.preparedActionIds();
+		if (actionIds.length == 0) {
+			throw new Error("No call was prepared");
+		}
+		return actionIds[actionIds.length - 1];
+	}
+
+	public replyPrepared(actionId: string, failReason: string = "") {
+		this.receive({ type: "callPrepareResultEvent", actionId, failReason });
+	}
+
+	public replyProgress(actionId: string, state: CallProgressStatus = CallProgressStatus.PLAYING, undeliveredOutputs = {}) {
+		this.receive({ type: "callProgressEvent", actionId, state, undeliveredOutputs });
+	}
+
+	public replyResult(
+		actionId: string,
+		state: CallResultStatus = CallResultStatus.DONE,
+		undeliveredOutputs: { [output: string]: string } = {},
+		failReason: string = ""
+	) {
+		this.receive({ type: "callResultEvent", actionId, state, failReason, undeliveredOutputs });
+	}
+
+	/**
+	 * Replies to the prepared call as the device playing it to all outputs.
+	 */
+	public replyPlaying(actionId: string) {
+		this.replyPrepared(actionId);
+		this.replyProgress(actionId);
+	}
+
+	/**
+	 * Replies to the prepared call as the device playing it to all outputs till the end.
+	 */
+	public replyDone(actionId: string) {
+		this.replyPlaying(actionId);
+		this.replyResult(actionId);
+	}
+}
+
+/**
+ * Waits for pending promise callbacks and timers of the given delay, e.g. till the next item of a sequence is started.
+ */
+export function settle(delayMs: number = 0): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, delayMs));
+}
@@ -14,6 +14,9 @@
  * limitations under the License.
  */
 
+import { RemoteFileAudioSource } from "../nnPagingRouter.ts";
+import { ChecksumMethod, computeChecksum, computeFileChecksum, computeUrlChecksum, withChecksum } from "../pagingRouter/Checksum.ts";
+
 /**
  * Nnounce useful utils
  */
@@ -82,4 +85,41 @@ export class NnUtilDefinition {
 			}, durationMs);
 		});
 	}
+
+	/**
+	 * Computes hex encoded checksum of given bytes.
+	 * @param data
+	 * @param method checksum function, see {@link ChecksumMethod}
+	 */
+	public computeChecksum(data: Uint8Array | ArrayBuffer, method: ChecksumMethod): Promise<string> {
+		return computeChecksum(data, method);
+	}
+
+	/**
+	 * Computes hex encoded checksum of a local file.
+	 * @param path
+	 * @param method checksum function, see {@link ChecksumMethod}
+	 */
+	public computeFileChecksum(path: string, method: ChecksumMethod): Promise<string> {
+		return computeFileChecksum(path, method);
+	}
+
+	/**
+	 * Downloads the remote file and computes its hex encoded checksum.
+	 * Headers and basic auth credentials of the audio source are applied to the request.
+	 * @param audioSource
+	 * @param method checksum function, see {@link ChecksumMethod}
+	 */
+	public computeUrlChecksum(audioSource: RemoteFileAudioSource, method: ChecksumMethod): Promise<string> {
+		return computeUrlChecksum(audioSource, method);
+	}
+
+	/**
+	 * Downloads the remote file and returns a copy of the audio source with 'checksum' and 'checksumMethod' filled in.
+	 * @param audioSource
+	 * @param method checksum function, default is sha2-256
+	 */
+	public withChecksum(audioSource: RemoteFileAudioSource, method?: ChecksumMethod): Promise<RemoteFileAudioSource> {
+		return withChecksum(audioSource, method);
+	}
 }